@@ -0,0 +1,158 @@
+/// <reference path="problem.ts" />
+/// <reference path="scheduling.ts" />
+
+/**
+ * This module generates large scheduling problems, e.g. a full week of
+ * 15-minute timeslices, to measure how long it takes to build the linear
+ * program and how large it is with each formulation (see
+ * {@link scheduling.Options.formulation}):
+ *
+ * ```
+ * node build/main.js benchmark --riders 40 --days 7 --slice-minutes 15
+ * ```
+ *
+ * The problems are pseudo-random but deterministic (for the same settings and
+ * seed), so that the measures can be compared across changes.
+ */
+namespace benchmark {
+  /**
+   * The settings of a generated problem.
+   */
+  export interface Settings {
+    /**
+     * The number of riders.
+     */
+    riders: number;
+
+    /**
+     * The number of days.
+     */
+    days: number;
+
+    /**
+     * The duration of the timeslices, in minutes.
+     */
+    sliceMinutes: number;
+
+    /**
+     * The seed of the pseudo-random generator; it is 1 by default.
+     */
+    seed?: number;
+  }
+
+  /**
+   * The measures of a linear program.
+   */
+  export interface Measure {
+    /**
+     * The time taken to build the linear program, in milliseconds.
+     */
+    milliseconds: number;
+
+    /**
+     * The size of the linear program.
+     */
+    size: scheduling.ModelSize;
+  }
+
+  /**
+   * A generated problem, with the options that split it into days.
+   */
+  export interface GeneratedProblem {
+    /**
+     * The problem.
+     */
+    problem: scheduling.SchedulingProblem;
+
+    /**
+     * The options, with the days and the maximum duration of the shifts.
+     */
+    options: scheduling.Options;
+  }
+
+  /**
+   * Generate a scheduling problem: each rider is available in a window of 4
+   * to 10 hours on most days, and the demand peaks at lunch and dinner time.
+   *
+   * @param settings - The settings of the problem.
+   * @returns The problem and its options.
+   */
+  export function generateProblem(settings: Settings): GeneratedProblem {
+    const { riders, days, sliceMinutes } = settings;
+    const perDay = Math.round((24 * 60) / sliceMinutes);
+    if (!(0 < riders && 0 < days && 0 < perDay && perDay * sliceMinutes === 24 * 60)) {
+      throw new Error('Invalid benchmark settings');
+    }
+
+    // a Park-Miller generator, which is exact with double-precision numbers
+    let seed = settings.seed ?? 1;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    const types = ['bike', 'scooter'];
+    const timeSlices: scheduling.TimeSlice[] = [];
+    const demand: scheduling.Demand[] = [];
+    const horizonDays: scheduling.Day[] = [];
+    for (let day = 0; day < days; day += 1) {
+      horizonDays.push({ numTimeSlices: perDay });
+      for (let i = 0; i < perDay; i += 1) {
+        const id = `d${day}s${i}`;
+        const hour = (i * sliceMinutes) / 60;
+        timeSlices.push({ id, duration: sliceMinutes / 60 });
+        const peak = Math.max(0, 3 - Math.abs(hour - 13), 4 - Math.abs(hour - 20) * 1.5);
+        const riders = Math.round((peak * settings.riders) / 10);
+        if (riders) {
+          demand.push({ timeSlice: id, riders });
+        }
+        if (riders >= 3) {
+          demand.push({ timeSlice: id, type: 'scooter', riders: Math.floor(riders / 3) });
+        }
+      }
+    }
+
+    const generated: scheduling.Rider[] = [];
+    for (let rider = 0; rider < riders; rider += 1) {
+      const available: Record<string, boolean> = {};
+      for (let day = 0; day < days; day += 1) {
+        if (random() < 0.8) {
+          const start = Math.floor(random() * perDay * 0.6) + Math.floor(perDay * 0.3);
+          const length = Math.floor(((4 + random() * 6) * 60) / sliceMinutes);
+          for (let i = start; i < Math.min(perDay, start + length); i += 1) {
+            available[`d${day}s${i}`] = true;
+          }
+        }
+      }
+      generated.push({
+        id: `r${rider}`,
+        type: types[rider % 3 ? 0 : 1],
+        guaranteed: Math.floor(random() * 3) * 4,
+        available,
+      });
+    }
+
+    return {
+      problem: { types, riders: generated, timeSlices, demand, minDuration: 2 },
+      options: {
+        days: horizonDays,
+        maxShiftDuration: generated.map(() => 8),
+      },
+    };
+  }
+
+  /**
+   * Build the linear program of a problem and measure it.
+   *
+   * @param generated - The problem and its options.
+   * @param options - The options that override those of the problem, e.g. the
+   * formulation.
+   * @returns The time taken to build the linear program and its size.
+   */
+  export function measure(generated: GeneratedProblem, options: scheduling.Options = {}): Measure {
+    const start = Date.now();
+    const linProgram = scheduling.makeLP(generated.problem, { ...generated.options, ...options });
+    const size = linProgram.size();
+    return { milliseconds: Date.now() - start, size };
+  }
+}
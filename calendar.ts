@@ -0,0 +1,313 @@
+/**
+ * This module defines the planning horizon with clock times, as an alternative
+ * to listing the timeslices of a {@link scheduling.SchedulingProblem} by hand.
+ *
+ * The times are written as local date-times (`2024-03-31T18:30`) in the time
+ * zone of the horizon, and the timeslices are identified by their start as a
+ * timestamp with the UTC offset (`2024-03-31T18:30+02:00`), so that the
+ * timeslices of the days when the daylight saving time starts or ends (with 23
+ * or 25 hours) are all distinct and last their actual duration, in hours.
+ *
+ * The availability of the riders can also be given as time intervals, e.g.
+ * `18:30-23:00` (every day) or `2024-03-31 18:30-23:00` (only that day); an
+ * interval that ends before it starts continues into the next day, and a
+ * timeslice is available if it is entirely within one of the intervals.
+ */
+namespace scheduling {
+  /**
+   * The planning horizon, split into timeslices.
+   */
+  export interface Horizon {
+    /**
+     * The start of the first timeslice, as a local date-time (e.g.
+     * `2024-03-31T00:00`).
+     */
+    start: string;
+
+    /**
+     * The end of the last timeslice, as a local date-time.
+     */
+    end: string;
+
+    /**
+     * The duration of the timeslices, in minutes (60 by default); it is
+     * ignored if the boundaries are specified.
+     */
+    sliceMinutes?: number;
+
+    /**
+     * The boundaries between the timeslices, either as times of the day (e.g.
+     * `12:00`, for every day) or as local date-times.
+     */
+    boundaries?: string[];
+
+    /**
+     * The IANA time zone (e.g. `Europe/Rome`); by default, the time zone of
+     * the environment.
+     */
+    timeZone?: string;
+  }
+
+  /**
+   * An interval of availability, with its level.
+   */
+  export interface AvailabilityInterval {
+    /**
+     * The interval, e.g. `18:30-23:00` or `2024-03-31 18:30-23:00`.
+     */
+    interval: string;
+
+    /**
+     * The level of availability in the interval.
+     */
+    level: Availability;
+  }
+
+  const MINUTE = 60 * 1000;
+
+  /**
+   * Get the time zone of the environment.
+   *
+   * @returns The IANA name of the time zone.
+   */
+  function defaultTimeZone() {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+
+  /**
+   * Parse a local date-time.
+   *
+   * @param text - The date-time, e.g. `2024-03-31T18:30` (or with a space).
+   * @returns The date (`YYYY-MM-DD`) and the minutes since midnight, or
+   * undefined if the text is not a valid date-time.
+   */
+  function parseLocal(text: string) {
+    const m = /^(\d{4}-\d{2}-\d{2})[T ](\d{1,2}):(\d{2})$/.exec(text.trim());
+    return m && Number(m[2]) < 24 && Number(m[3]) < 60
+      ? { date: m[1], minutes: Number(m[2]) * 60 + Number(m[3]) }
+      : undefined;
+  }
+
+  /**
+   * The formatters of the local date-times, by time zone (creating one is much
+   * slower than formatting an instant).
+   */
+  const wallClockFormats: Record<string, Intl.DateTimeFormat> = {};
+
+  /**
+   * Get the local date-time of an instant.
+   *
+   * @param instant - The instant, in milliseconds since the epoch.
+   * @param timeZone - The time zone.
+   * @returns The local date-time as if it were UTC, in milliseconds since the
+   * epoch.
+   */
+  function wallClock(instant: number, timeZone: string) {
+    const parts: Record<string, number> = {};
+    wallClockFormats[timeZone] =
+      wallClockFormats[timeZone] ??
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hour12: false,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+      });
+    wallClockFormats[timeZone].formatToParts(instant).forEach(({ type, value }) => (parts[type] = Number(value)));
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute);
+  }
+
+  /**
+   * Convert a local date-time into an instant.
+   *
+   * @param date - The date (`YYYY-MM-DD`).
+   * @param minutes - The minutes since midnight (possibly beyond the day).
+   * @param timeZone - The time zone.
+   * @returns The instant, in milliseconds since the epoch; a time that does
+   * not exist (because the clocks move forward) is shifted by the offset
+   * change.
+   */
+  function toInstant(date: string, minutes: number, timeZone: string) {
+    const [year, month, day] = date.split('-').map(Number);
+    const wall = Date.UTC(year, month - 1, day, 0, minutes);
+    const guess = wall - (wallClock(wall, timeZone) - wall);
+    return wall - (wallClock(guess, timeZone) - guess);
+  }
+
+  /**
+   * Format an instant as a local date-time with the UTC offset.
+   *
+   * @param instant - The instant, in milliseconds since the epoch.
+   * @param timeZone - The time zone.
+   * @returns The timestamp, e.g. `2024-03-31T18:30+02:00`.
+   */
+  function formatTimestamp(instant: number, timeZone: string) {
+    const wall = wallClock(instant, timeZone);
+    const offset = Math.round((wall - instant) / MINUTE);
+    const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+    const abs = Math.abs(offset);
+    return `${new Date(wall).toISOString().slice(0, 16)}${offset < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}:${pad(
+      abs % 60,
+    )}`;
+  }
+
+  /**
+   * Get the local date of an instant.
+   *
+   * @param instant - The instant, in milliseconds since the epoch.
+   * @param timeZone - The time zone.
+   * @param days - The number of days to add.
+   * @returns The date (`YYYY-MM-DD`).
+   */
+  function localDate(instant: number, timeZone: string, days = 0) {
+    return new Date(wallClock(instant, timeZone) + days * 24 * 60 * MINUTE).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Check whether a string is a valid IANA time zone.
+   *
+   * @param timeZone - The time zone.
+   * @returns Whether the time zone is supported by the environment.
+   */
+  export function isTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether all of the timeslices have start and end timestamps.
+   *
+   * @param timeSlices - The timeslices.
+   * @returns Whether the start and the end of each timeslice are timestamps.
+   */
+  export function hasTimestamps(timeSlices: TimeSlice[]): boolean {
+    return timeSlices.every((slice) => !isNaN(Date.parse(slice.start ?? '')) && !isNaN(Date.parse(slice.end ?? '')));
+  }
+
+  /**
+   * Split a planning horizon into timeslices.
+   *
+   * @param horizon - The planning horizon.
+   * @returns The timeslices, identified by their start timestamp, with their
+   * start and end timestamps and their duration in hours.
+   * @throws If a date-time, a boundary or the time zone is not valid.
+   */
+  export function makeTimeSlices(horizon: Horizon): TimeSlice[] {
+    const timeZone = horizon.timeZone ?? defaultTimeZone();
+    if (!isTimeZone(timeZone)) {
+      throw new Error(`Invalid time zone ${timeZone}`);
+    }
+    const instant = (text: string) => {
+      const local = parseLocal(text);
+      if (!local) {
+        throw new Error(`Invalid date-time ${text}`);
+      }
+      return toInstant(local.date, local.minutes, timeZone);
+    };
+    const start = instant(horizon.start);
+    const end = instant(horizon.end);
+    if (!(start < end)) {
+      throw new Error('The horizon ends before it starts');
+    }
+
+    let boundaries: number[] = [];
+    if (horizon.boundaries) {
+      for (const b of horizon.boundaries) {
+        const time = /^(\d{1,2}):(\d{2})$/.exec(b.trim());
+        if (!time) {
+          boundaries.push(instant(b));
+        }
+        for (let day = 0; time && localDate(start, timeZone, day) <= localDate(end, timeZone); day += 1) {
+          boundaries.push(toInstant(localDate(start, timeZone, day), Number(time[1]) * 60 + Number(time[2]), timeZone));
+        }
+      }
+    } else {
+      const step = (horizon.sliceMinutes ?? 60) * MINUTE;
+      if (!(0 < step)) {
+        throw new Error(`Invalid slice duration ${horizon.sliceMinutes}`);
+      }
+      for (let b = start + step; b < end; b += step) {
+        boundaries.push(b);
+      }
+    }
+    boundaries = [start, ...boundaries.filter((b) => start < b && b < end).sort((a, b) => a - b), end];
+    boundaries = boundaries.filter((b, i) => b !== boundaries[i - 1]);
+
+    return boundaries.slice(1).map((b, i) => {
+      const s = formatTimestamp(boundaries[i], timeZone);
+      return { id: s, start: s, end: formatTimestamp(b, timeZone), duration: (b - boundaries[i]) / (60 * MINUTE) };
+    });
+  }
+
+  /**
+   * Parse an interval of availability.
+   *
+   * @param text - The interval, e.g. `18:30-23:00` or `2024-03-31 18:30-23:00`.
+   * @returns The date (if any) and the start and end in minutes since midnight
+   * (the end is on the next day if it is not after the start), or undefined if
+   * the text is not a valid interval.
+   */
+  export function parseInterval(text: string): { date?: string; start: number; end: number } | undefined {
+    const m = /^(?:(\d{4}-\d{2}-\d{2})[T ])?(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/.exec(text.trim());
+    // 24:00 is the end of the day, but 24:30 is not a time
+    const isTime = (hours: string, minutes: string) =>
+      Number(minutes) <= 59 && (Number(hours) < 24 || (Number(hours) === 24 && Number(minutes) === 0));
+    if (!m || !isTime(m[2], m[3]) || !isTime(m[4], m[5])) {
+      return undefined;
+    }
+    const start = Number(m[2]) * 60 + Number(m[3]);
+    const end = Number(m[4]) * 60 + Number(m[5]);
+    return { date: m[1], start, end: end > start ? end : end + 24 * 60 };
+  }
+
+  /**
+   * Map the intervals of availability of a rider onto the timeslices.
+   *
+   * @param timeSlices - The timeslices, with their start and end timestamps
+   * (see {@link scheduling.makeTimeSlices}).
+   * @param intervals - The intervals, either as strings (`preferred`) or with
+   * their level; the later ones take precedence.
+   * @param timeZone - The time zone of the intervals; by default, the time zone
+   * of the environment.
+   * @returns The availability in each timeslice that is entirely within an
+   * interval, by timeslice ID.
+   * @throws If an interval or a timestamp is not valid.
+   */
+  export function mapIntervals(
+    timeSlices: TimeSlice[],
+    intervals: Array<string | AvailabilityInterval>,
+    timeZone = defaultTimeZone(),
+  ): Record<string, Availability> {
+    const available: Record<string, Availability> = {};
+    for (const i of intervals) {
+      const { interval, level } = typeof i === 'string' ? { interval: i, level: 'preferred' as Availability } : i;
+      const parsed = parseInterval(interval);
+      if (!parsed) {
+        throw new Error(`Invalid interval ${interval}`);
+      }
+      for (const slice of timeSlices) {
+        const start = Date.parse(slice.start ?? '');
+        const end = Date.parse(slice.end ?? '');
+        if (isNaN(start) || isNaN(end)) {
+          throw new Error(`The timeslice ${slice.id} has no start and end timestamps`);
+        }
+        // the interval may have started on the previous day
+        const dates = parsed.date ? [parsed.date] : [localDate(start, timeZone, -1), localDate(start, timeZone)];
+        if (
+          dates.some(
+            (date) => toInstant(date, parsed.start, timeZone) <= start && end <= toInstant(date, parsed.end, timeZone),
+          )
+        ) {
+          available[slice.id] = level;
+        }
+      }
+    }
+    return available;
+  }
+}
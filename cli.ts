@@ -0,0 +1,412 @@
+/// <reference path="problem.ts" />
+/// <reference path="scheduling.ts" />
+/// <reference path="report.ts" />
+/// <reference path="validate.ts" />
+/// <reference path="scenario.ts" />
+/// <reference path="benchmark.ts" />
+
+/**
+ * This module implements a command-line tool that reads a scheduling problem
+ * from a file (JSON or CSV), so that new scenarios do not require any change to
+ * the code:
+ *
+ * ```
+ * node build/main.js export problem.json --format mps > problem.mps
+ * node build/main.js solve problem.csv --time-limit 60 > schedule.json
+ * node build/main.js import-solution problem.json problem.sol > schedule.json
+ * node build/main.js report problem.json --solution problem.sol --output csv
+ * node build/main.js validate problem.json schedule.json
+ * node build/main.js what-if problem.json scenarios.json
+ * node build/main.js marginal-cost problem.json
+ * node build/main.js alternatives problem.json --count 5 --min-difference 2
+ * node build/main.js benchmark --riders 40 --days 7 --slice-minutes 15
+ * ```
+ *
+ * A JSON file contains a {@link scheduling.SchedulingProblem}, optionally with
+ * an `options` field (see {@link scheduling.Options}). A CSV file has a column
+ * per timeslice after the `rider`, `name`, `type` and `guaranteed` columns; its
+ * rows are:
+ *
+ *  - `duration`, with the duration of each timeslice;
+ *
+ *  - `expected` and `expected <type>`, with the expected number of riders (of
+ *    any type, or of the given type);
+ *
+ *  - `minDuration`, with the minimum duration of a shift in the first
+ *    timeslice column;
+ *
+ *  - one row per rider, with its ID, name, type, guaranteed time and the
+ *    availability in each timeslice (`1`/`0`, `true`/`false`, `preferred`,
+ *    `possible` or `unavailable`; an empty cell is unavailable).
+ */
+
+/**
+ * The subset of the Node.js API used by the command-line tool (the project
+ * does not depend on the Node.js typings, because it targets Apps Script).
+ */
+declare const process: {
+  argv: string[];
+  exitCode?: number;
+  stdout: { write(text: string): void };
+  stderr: { write(text: string): void };
+};
+declare function require(module: 'fs'): { readFileSync(path: string, encoding: 'utf8'): string };
+
+namespace cli {
+  /**
+   * The input/output operations of the command-line tool.
+   */
+  export interface IO {
+    /**
+     * Read a text file.
+     *
+     * @param path - The path of the file.
+     * @returns The content of the file.
+     */
+    readFile(path: string): string;
+
+    /**
+     * Write to the standard output.
+     *
+     * @param text - The text to be written.
+     */
+    write(text: string): void;
+
+    /**
+     * Write to the standard error.
+     *
+     * @param text - The text to be written.
+     */
+    error(text: string): void;
+  }
+
+  const USAGE = `Usage: node build/main.js <command> <problem.json|problem.csv> [options]
+
+Commands:
+  export [--format lp|mps|cplex]         print the linear program
+  solve [--time-limit <seconds>]         solve the problem and print the schedule (JSON)
+  import-solution <file.sol>             print the schedule of an external solution (JSON)
+  report [--solution <file.sol>] [--time-limit <seconds>] [--output text|csv|json]
+                                         print the shifts and the coverage
+  validate <schedule.json>               print the violations of a schedule (JSON), if any
+  what-if <scenarios.json> [--time-limit <seconds>]
+                                         print the differences of each scenario from the problem (JSON)
+  marginal-cost [--time-limit <seconds>] print the cost of one more rider in each timeslice
+  alternatives [--count <n>] [--gap <fraction>] [--min-difference <n>] [--time-limit <seconds>]
+                                         print the best distinct schedules (JSON)
+  benchmark [--riders <n>] [--days <n>] [--slice-minutes <n>]
+                                         measure the linear program of a generated problem
+`;
+
+  /**
+   * The flags of each command.
+   */
+  const FLAGS: Record<string, string[]> = {
+    export: ['format'],
+    solve: ['time-limit'],
+    'import-solution': [],
+    report: ['solution', 'time-limit', 'output'],
+    validate: [],
+    'what-if': ['time-limit'],
+    'marginal-cost': ['time-limit'],
+    alternatives: ['count', 'gap', 'min-difference', 'time-limit'],
+    benchmark: ['riders', 'days', 'slice-minutes'],
+  };
+
+  /**
+   * Split a CSV line into its (possibly quoted) cells.
+   *
+   * @param line - The line.
+   * @returns The cells.
+   */
+  function splitCSVLine(line: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i += 1) {
+      const c = line.charAt(i);
+      if (quoted && c === '"' && line.charAt(i + 1) === '"') {
+        cell += c;
+        i += 1;
+      } else if (c === '"') {
+        quoted = !quoted;
+      } else if (c === ',' && !quoted) {
+        cells.push(cell);
+        cell = '';
+      } else {
+        cell += c;
+      }
+    }
+    cells.push(cell);
+    return cells.map((x) => x.trim());
+  }
+
+  /**
+   * Parse a scheduling problem in CSV format (see the module documentation).
+   *
+   * @param text - The content of the CSV file.
+   * @returns The scheduling problem.
+   * @throws If a row or a value is not recognized.
+   */
+  export function parseProblemCSV(text: string): scheduling.SchedulingProblem {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim());
+    if (!lines.length) {
+      throw new Error('Empty CSV file');
+    }
+    const [header, ...rows] = lines.map(splitCSVLine);
+    const ids = header.slice(4);
+
+    const problem: scheduling.SchedulingProblem = {
+      types: [],
+      riders: [],
+      timeSlices: ids.map((id) => ({ id, start: id, duration: 1 })),
+      demand: [],
+      minDuration: 0,
+    };
+    const addType = (type: string) => problem.types.indexOf(type) < 0 && problem.types.push(type);
+    const toNumber = (cell: string, line: number) => {
+      const n = Number(cell);
+      if (cell === '' || isNaN(n)) {
+        throw new Error(`Line ${line}: invalid number ${JSON.stringify(cell)}`);
+      }
+      return n;
+    };
+
+    rows.forEach((row, i) => {
+      const line = i + 2;
+      const [key, name, type, guaranteed] = row;
+      const values = row.slice(4);
+      if (key === 'duration') {
+        values.forEach((cell, t) => (problem.timeSlices[t].duration = toNumber(cell, line)));
+      } else if (key === 'minDuration') {
+        problem.minDuration = toNumber(values[0], line);
+      } else if (/^expected\b/.test(key)) {
+        const demandType = key.slice('expected'.length).trim() || undefined;
+        if (demandType !== undefined) {
+          addType(demandType);
+        }
+        values.forEach((cell, t) => {
+          if (cell) {
+            problem.demand.push({ timeSlice: ids[t], type: demandType, riders: toNumber(cell, line) });
+          }
+        });
+      } else {
+        addType(type);
+        const available: Record<string, boolean | scheduling.Availability> = {};
+        values.forEach((cell, t) => {
+          const a = cell.toLowerCase();
+          if (a === '1' || a === 'true') {
+            available[ids[t]] = true;
+          } else if (a === 'preferred' || a === 'possible') {
+            available[ids[t]] = a;
+          } else if (a !== '' && a !== '0' && a !== 'false' && a !== 'unavailable') {
+            throw new Error(`Line ${line}: invalid availability ${JSON.stringify(cell)}`);
+          }
+        });
+        problem.riders.push({
+          id: key,
+          name: name || undefined,
+          type,
+          guaranteed: toNumber(guaranteed, line),
+          available,
+        });
+      }
+    });
+    return problem;
+  }
+
+  /**
+   * Read a scheduling problem (and its options) from a JSON or CSV file.
+   *
+   * @param path - The path of the file; its extension selects the format.
+   * @param io - The input/output operations.
+   * @returns The scheduling problem and its options.
+   */
+  function readProblem(path: string, io: IO): [scheduling.SchedulingProblem, scheduling.Options] {
+    const text = io.readFile(path);
+    if (/\.csv$/i.test(path)) {
+      return [parseProblemCSV(text), {}];
+    }
+    const { options, ...problem } = JSON.parse(text) as scheduling.SchedulingProblem & {
+      options?: scheduling.Options;
+    };
+    return [problem, options ?? {}];
+  }
+
+  /**
+   * Format a result as JSON, without the rounding errors of the solver.
+   *
+   * @param value - The result.
+   * @returns The indented JSON.
+   */
+  function toJSON(value: unknown): string {
+    return JSON.stringify(value, (_, x) => (typeof x === 'number' ? report.round(x) : x), 2);
+  }
+
+  /**
+   * Run the command-line tool.
+   *
+   * @param args - The command-line arguments (without the interpreter and the
+   * script).
+   * @param io - The input/output operations.
+   * @returns The exit code.
+   */
+  export function run(args: string[], io: IO): number {
+    const positional: string[] = [];
+    const flags: Record<string, string> = {};
+    for (let i = 0; i < args.length; i += 1) {
+      if (/^--/.test(args[i])) {
+        // each flag is followed by its value
+        if (i + 1 === args.length || /^--/.test(args[i + 1])) {
+          io.error(USAGE);
+          return 2;
+        }
+        flags[args[i].slice(2)] = args[i + 1];
+        i += 1;
+      } else {
+        positional.push(args[i]);
+      }
+    }
+
+    const [command, path, solutionPath] = positional;
+    const commandFlags = Object.prototype.hasOwnProperty.call(FLAGS, command) ? FLAGS[command] : [];
+    if (Object.keys(flags).some((flag) => commandFlags.indexOf(flag) < 0)) {
+      io.error(USAGE);
+      return 2;
+    }
+    if (command === 'benchmark') {
+      return runBenchmark(flags, io);
+    }
+    const timeLimit = flags['time-limit'] === undefined ? undefined : Number(flags['time-limit']);
+    if (
+      !path ||
+      ((command === 'import-solution' || command === 'validate' || command === 'what-if') && !solutionPath) ||
+      !(timeLimit === undefined || timeLimit > 0)
+    ) {
+      io.error(USAGE);
+      return 2;
+    }
+
+    try {
+      const [problem, options] = readProblem(path, io);
+      const linProgram = scheduling.makeLP(problem, options);
+      const solver = new lp.BranchAndBoundSolver(timeLimit);
+      const solve = () => linProgram.solve(solver);
+
+      if (command === 'export') {
+        const format = flags.format ?? 'lp';
+        if (format === 'lp') {
+          io.write(linProgram.export());
+        } else if (format === 'mps') {
+          io.write(linProgram.exportAsMPS());
+        } else if (format === 'cplex') {
+          io.write(linProgram.exportAsCPLEXLP());
+        } else {
+          throw new Error(`Unknown format ${format}`);
+        }
+      } else if (command === 'solve') {
+        io.write(`${toJSON(solve())}\n`);
+      } else if (command === 'import-solution') {
+        io.write(`${toJSON(linProgram.importSolution(io.readFile(solutionPath)))}\n`);
+      } else if (command === 'report') {
+        const output = flags.output ?? 'text';
+        if (output !== 'text' && output !== 'csv' && output !== 'json') {
+          throw new Error(`Unknown output format ${output}`);
+        }
+        const schedule = flags.solution ? linProgram.importSolution(io.readFile(flags.solution)) : solve();
+        io.write(report.formatReport(problem, schedule, output));
+      } else if (command === 'validate') {
+        // either a schedule printed by solve (with its counted time), or just
+        // its shifts or assignment
+        const schedule = JSON.parse(io.readFile(solutionPath));
+        const toValidate = Array.isArray(schedule) || schedule.shifts ? schedule : schedule.assignment;
+        if (!toValidate) {
+          throw new Error(`The schedule has no shifts (status ${schedule.status})`);
+        }
+        const violations = scheduling.validateSchedule(toValidate, problem, options);
+        io.write(`${toJSON(violations)}\n`);
+        return violations.length ? 1 : 0;
+      } else if (command === 'what-if') {
+        const scenarios = JSON.parse(io.readFile(solutionPath)) as scheduling.Scenario[];
+        const comparison = scheduling.compareScenarios(scenarios, problem, options, solver);
+        const outcomes = comparison.scenarios.map(({ name, schedule, ...delta }) => ({
+          name,
+          status: schedule.status,
+          ...delta,
+        }));
+        io.write(`${toJSON(outcomes)}\n`);
+      } else if (command === 'alternatives') {
+        const number = (flag: string) => (flags[flag] === undefined ? undefined : Number(flags[flag]));
+        const alternatives = {
+          count: number('count'),
+          gap: number('gap'),
+          minDifference: number('min-difference'),
+        };
+        io.write(`${toJSON(linProgram.alternatives(alternatives, solver))}\n`);
+      } else if (command === 'marginal-cost') {
+        const round = (x?: number) => (x === undefined ? '' : `${report.round(x)}`);
+        io.write('timeSlice\ttype\thours\tcost\tobjective\n');
+        for (const c of scheduling.marginalCosts(problem, options, solver)) {
+          io.write(
+            `${problem.timeSlices[c.timeSlice].id}\t${c.type ?? ''}\t${round(c.hoursDelta)}\t${round(
+              c.costDelta,
+            )}\t${round(c.objectiveDelta)}\n`,
+          );
+        }
+      } else {
+        io.error(USAGE);
+        return 2;
+      }
+    } catch (e) {
+      io.error(`${e instanceof Error ? e.message : e}\n`);
+      return 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Measure the linear program of a generated problem with each formulation.
+   *
+   * @param flags - The settings of the problem (`riders`, `days` and
+   * `slice-minutes`).
+   * @param io - The input/output operations.
+   * @returns The exit code.
+   */
+  function runBenchmark(flags: Record<string, string>, io: IO): number {
+    try {
+      const generated = benchmark.generateProblem({
+        riders: Number(flags.riders ?? 20),
+        days: Number(flags.days ?? 7),
+        sliceMinutes: Number(flags['slice-minutes'] ?? 15),
+      });
+      const formulations: Array<[string, scheduling.Options]> = [
+        ['ranges', {}],
+        ['ranges (pruned)', { pruneRanges: true }],
+        ['flow', { formulation: 'flow' }],
+      ];
+      io.write('formulation\tvariables\tconstraints\tnonzeros\tmilliseconds\n');
+      for (const [name, options] of formulations) {
+        const { milliseconds, size } = benchmark.measure(generated, options);
+        io.write(`${name}\t${size.variables}\t${size.constraints}\t${size.nonzeros}\t${milliseconds}\n`);
+      }
+    } catch (e) {
+      io.error(`${e instanceof Error ? e.message : e}\n`);
+      return 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Get the input/output operations of Node.js.
+   *
+   * @returns The input/output operations.
+   */
+  export function nodeIO(): IO {
+    const fs = require('fs');
+    return {
+      readFile: (path) => fs.readFileSync(path, 'utf8'),
+      write: (text) => process.stdout.write(text),
+      error: (text) => process.stderr.write(text),
+    };
+  }
+}
@@ -0,0 +1,285 @@
+/// <reference path="lp.ts" />
+
+/**
+ * This module exports linear programs in the formats that are understood by
+ * most solvers (CBC, HiGHS, GLPK, Gurobi, CPLEX...), as an alternative to the
+ * lp_solve dialect produced by {@link lp.exportAsLP}:
+ *
+ *  - {@link https://www.ibm.com/docs/en/icos/22.1.0?topic=standard-records-in-mps-format | MPS}
+ *    (both the fixed and the free variant)
+ *
+ *  - {@link https://www.ibm.com/docs/en/icos/22.1.0?topic=cplex-lp-file-format-algebraic-representation | CPLEX LP}
+ */
+namespace lp {
+  /**
+   * The maximum length of a line of a CPLEX LP file (the format allows 560
+   * characters, but some readers are stricter).
+   */
+  const MAX_LINE_LENGTH = 255;
+
+  /**
+   * The variants of the MPS format.
+   *
+   * @remarks
+   *
+   * The `fixed` variant limits names to 8 characters, hence rows and columns
+   * are renamed (`R1`, `R2`... and `C1`, `C2`...); the `free` variant keeps
+   * the original names, so that the solutions can be imported back with
+   * {@link lp.importSolution}.
+   */
+  export type MPSFormat = 'fixed' | 'free';
+
+  /**
+   * Get the constraints that actually restrict the program.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   * @param constraints - The constraints of the linear program.
+   * @returns The constraints that have at least one bound.
+   */
+  function boundedConstraints<T>(constraints: Constraint<T>[]): Constraint<T>[] {
+    return constraints.filter((c) => c.lowerBound !== undefined || c.upperBound !== undefined);
+  }
+
+  /**
+   * Format a number so that it fits within a field of the fixed MPS format.
+   *
+   * @param n - The number.
+   * @returns The number, represented in at most 12 characters.
+   */
+  function formatFixed(n: number): string {
+    let r = `${n}`;
+    for (let precision = 12; r.length > 12 && precision > 0; precision -= 1) {
+      r = n.toPrecision(precision).replace(/\.?0+(e|$)/, '$1');
+    }
+    return r;
+  }
+
+  /**
+   * Export a linear program in MPS format.
+   *
+   * @remarks
+   *
+   * The integer variables are enclosed within `INTORG`/`INTEND` markers, and
+   * their bounds are always stated explicitly, because some readers assume
+   * that unbounded integer variables are binary.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   * @param objective - The objective expression to be minimized.
+   * @param constraints - The constraints of the linear program.
+   * @param format - The variant of the MPS format.
+   * @returns The linear program, as a string.
+   */
+  export function exportAsMPS<T>(objective: LinExpr<T>, constraints: Constraint<T>[], format: MPSFormat = 'free') {
+    const rows = boundedConstraints(constraints);
+    const newObjective = saturate(objective, rows);
+    const vars = newObjective.getVarCoefficients().map(([v]) => v);
+
+    const rowName = (i: number) => (format === 'fixed' ? `R${i + 1}` : rows[i].name || `R${i + 1}`);
+    const colNames: Record<string, string> = {};
+    vars.forEach((v, j) => (colNames[v.name] = format === 'fixed' ? `C${j + 1}` : v.name));
+
+    const line = (...fields: string[]) => {
+      if (format === 'free') {
+        return ` ${fields.join(' ')}\n`;
+      }
+      // fields start at columns 2, 5, 15, 25, 40 and 50
+      const widths = [3, 10, 10, 15, 10, 12];
+      return ` ${fields.map((f, i) => (i < fields.length - 1 ? f.padEnd(widths[i]) : f)).join('')}\n`.replace(
+        /\s+\n$/,
+        '\n',
+      );
+    };
+
+    let r = `NAME          ${format === 'fixed' ? 'MODEL' : 'model'}\n`;
+
+    r += 'ROWS\n';
+    r += line('N', 'obj');
+    rows.forEach((c, i) => {
+      const type =
+        c.lowerBound === undefined ? 'L' : c.upperBound === undefined ? 'G' : c.lowerBound === c.upperBound ? 'E' : 'G';
+      r += line(type, rowName(i));
+    });
+
+    // collect the coefficients of each column
+    const entries: Record<string, Array<[string, number]>> = {};
+    vars.forEach((v) => (entries[v.name] = []));
+    for (const [v, coefficient] of objective.getVarCoefficients()) {
+      if (coefficient) {
+        entries[v.name].push(['obj', coefficient]);
+      }
+    }
+    rows.forEach((c, i) => {
+      for (const [v, coefficient] of c.getVarCoefficients()) {
+        if (coefficient) {
+          entries[v.name].push([rowName(i), coefficient]);
+        }
+      }
+    });
+
+    const formatNumber = (n: number) => (format === 'fixed' ? formatFixed(n) : `${n}`);
+
+    r += 'COLUMNS\n';
+    let marker = 0;
+    let inIntegerSection = false;
+    for (const v of vars) {
+      if (!v.isReal() !== inIntegerSection) {
+        inIntegerSection = !inIntegerSection;
+        const name = format === 'fixed' ? `M${marker + 1}` : `MARKER${marker + 1}`;
+        r += line('', name, "'MARKER'", '', inIntegerSection ? "'INTORG'" : "'INTEND'");
+        marker += 1;
+      }
+
+      // columns without coefficients must still be declared
+      const columnEntries = entries[v.name].length ? entries[v.name] : [['obj', 0] as [string, number]];
+      for (const [row, coefficient] of columnEntries) {
+        r += line('', colNames[v.name], row, formatNumber(coefficient));
+      }
+    }
+    if (inIntegerSection) {
+      r += line('', format === 'fixed' ? `M${marker + 1}` : `MARKER${marker + 1}`, "'MARKER'", '', "'INTEND'");
+    }
+
+    r += 'RHS\n';
+    rows.forEach((c, i) => {
+      const rhs = c.lowerBound !== undefined ? c.lowerBound : c.upperBound!;
+      if (rhs) {
+        r += line('', 'RHS', rowName(i), formatNumber(rhs));
+      }
+    });
+
+    const ranges = rows
+      .map((c, i) => [c, i] as const)
+      .filter(([c]) => c.lowerBound !== undefined && c.upperBound !== undefined && c.lowerBound !== c.upperBound);
+    if (ranges.length) {
+      r += 'RANGES\n';
+      for (const [c, i] of ranges) {
+        r += line('', 'RNG', rowName(i), formatNumber(c.upperBound! - c.lowerBound!));
+      }
+    }
+
+    r += 'BOUNDS\n';
+    for (const v of vars) {
+      const name = colNames[v.name];
+      if (v.isBool()) {
+        r += line('BV', 'BND', name);
+      } else if (v.lowerBound !== undefined && v.lowerBound === v.upperBound) {
+        r += line('FX', 'BND', name, formatNumber(v.lowerBound));
+      } else if (v.isReal() && v.lowerBound === undefined && v.upperBound === undefined) {
+        r += line('FR', 'BND', name);
+      } else {
+        if (v.lowerBound === undefined) {
+          r += line('MI', 'BND', name);
+        } else if (v.lowerBound !== 0 || v.isInt()) {
+          r += line('LO', 'BND', name, formatNumber(v.lowerBound));
+        }
+        if (v.upperBound !== undefined) {
+          r += line('UP', 'BND', name, formatNumber(v.upperBound));
+        } else if (v.isInt()) {
+          r += line('PL', 'BND', name);
+        }
+      }
+    }
+
+    r += 'ENDATA\n';
+    return r;
+  }
+
+  /**
+   * Convert a name into one that is valid in the CPLEX LP format.
+   *
+   * @param name - The original name.
+   * @returns The name, with brackets replaced by parentheses and any other
+   * character that is not allowed replaced by `_`.
+   */
+  function toCPLEXName(name: string): string {
+    return name
+      .replace(/\[/g, '(')
+      .replace(/\]/g, ')')
+      .replace(/[^A-Za-z0-9!"#$%&()\/,.;?@_`'{}|~]/g, '_')
+      .replace(/^([0-9.])/, '_$1');
+  }
+
+  /**
+   * Export a linear program in CPLEX LP format.
+   *
+   * @remarks
+   *
+   * Names are adapted to the characters allowed by the format (e.g.
+   * `a[0][12..14]` becomes `a(0)(12..14)`), and ranges `lower <= expr <= upper`
+   * are split into two constraints, suffixed by `_lo` and `_hi`, because they
+   * are not supported by all the readers.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   * @param objective - The objective expression to be minimized.
+   * @param constraints - The constraints of the linear program.
+   * @returns The linear program, as a string.
+   */
+  export function exportAsCPLEXLP<T>(objective: LinExpr<T>, constraints: Constraint<T>[]) {
+    const rows = boundedConstraints(constraints);
+    const newObjective = saturate(objective, rows);
+    const vars = newObjective.getVarCoefficients().map(([v]) => v);
+
+    const expression = (e: LinExpr<T>) => {
+      let r = '';
+      let length = 0;
+      e.getVarCoefficients().forEach(([v, c], i) => {
+        const sign = c < 0 ? '-' : '+';
+        const abs = Math.abs(c);
+        const term = `${i || c < 0 ? `${sign} ` : ''}${abs === 1 ? '' : `${abs} `}${toCPLEXName(v.name)}`;
+        if (length + term.length > MAX_LINE_LENGTH) {
+          r += '\n  ';
+          length = 0;
+        }
+        r += ` ${term}`;
+        length += term.length + 1;
+      });
+      return r;
+    };
+
+    let r = 'Minimize\n';
+    r += ` obj:${objective.getVarCoefficients().length ? expression(objective) : ` 0 ${toCPLEXName(vars[0].name)}`}\n`;
+
+    r += 'Subject To\n';
+    rows.forEach((c, i) => {
+      const name = toCPLEXName(c.name || `R${i + 1}`);
+      const e = expression(c);
+      if (c.lowerBound === c.upperBound) {
+        r += ` ${name}:${e} = ${c.lowerBound}\n`;
+      } else if (c.upperBound === undefined) {
+        r += ` ${name}:${e} >= ${c.lowerBound}\n`;
+      } else if (c.lowerBound === undefined) {
+        r += ` ${name}:${e} <= ${c.upperBound}\n`;
+      } else {
+        r += ` ${name}_lo:${e} >= ${c.lowerBound}\n`;
+        r += ` ${name}_hi:${e} <= ${c.upperBound}\n`;
+      }
+    });
+
+    const bounds = vars.filter((v) => !v.isBool() && (v.lowerBound !== 0 || v.upperBound !== undefined));
+    if (bounds.length) {
+      r += 'Bounds\n';
+      for (const v of bounds) {
+        const name = toCPLEXName(v.name);
+        if (v.lowerBound === undefined && v.upperBound === undefined) {
+          r += ` ${name} free\n`;
+        } else if (v.lowerBound === v.upperBound) {
+          r += ` ${name} = ${v.lowerBound}\n`;
+        } else {
+          r += ` ${v.lowerBound ?? '-inf'} <= ${name}${v.upperBound === undefined ? '' : ` <= ${v.upperBound}`}\n`;
+        }
+      }
+    }
+
+    const intVars = vars.filter((v) => v.isInt());
+    if (intVars.length) {
+      r += `General\n${intVars.map((v) => ` ${toCPLEXName(v.name)}\n`).join('')}`;
+    }
+    const binVars = vars.filter((v) => v.isBool());
+    if (binVars.length) {
+      r += `Binary\n${binVars.map((v) => ` ${toCPLEXName(v.name)}\n`).join('')}`;
+    }
+
+    r += 'End\n';
+    return r;
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * This module forecasts the number of riders expected in each timeslice from
+ * the history of the orders, so that the Delivery Manager does not need to
+ * type `expected` and `expectedOfType` by hand.
+ *
+ * The orders are counted in buckets of one hour, by day of the week and hour
+ * of the day (in the local timezone): for each bucket, the mean `μ` and the
+ * standard deviation `σ` of the number of orders are computed over all of the
+ * days of the history with the same day of the week (including the days
+ * without orders). The orders of a timeslice are then forecast by adding up the
+ * means of the buckets it overlaps (in proportion to the overlap), and the
+ * riders needed to deliver them are
+ *
+ * ```
+ * ⌈orders * (1 + safetyMargin) / (ordersPerRiderHour * hours)⌉
+ * ```
+ *
+ * where `hours` is the duration of the timeslice in hours. The same is done
+ * for the orders that require a given type of vehicle, and for the confidence
+ * band `orders ± z * σ` (assuming that the buckets are independent).
+ */
+namespace forecast {
+  /**
+   * An order of the history.
+   */
+  export interface Order {
+    /**
+     * When the order was placed.
+     */
+    time: Date;
+
+    /**
+     * The type of vehicle required by the order (e.g. a scooter for a large
+     * order), if any.
+     */
+    type?: string;
+
+    /**
+     * The distance of the delivery; see {@link forecast.Options.referenceDistance}.
+     */
+    distance?: number;
+  }
+
+  /**
+   * The settings of a forecast.
+   */
+  export interface Options {
+    /**
+     * The number of orders that a rider delivers in an hour.
+     */
+    ordersPerRiderHour: number;
+
+    /**
+     * The fraction of orders added to the forecast as a safety margin (e.g.
+     * `0.1` for 10%); it is 0 by default.
+     */
+    safetyMargin?: number;
+
+    /**
+     * The distance of a typical delivery: the orders with a longer distance
+     * count as `distance / referenceDistance` orders; by default, the distance
+     * is ignored.
+     */
+    referenceDistance?: number;
+
+    /**
+     * The number of standard deviations of the confidence band; it is 1.96 by
+     * default (i.e. 95% of the cases, if the orders are normally distributed).
+     */
+    z?: number;
+
+    /**
+     * The length in minutes of a unit of duration of the timeslices; it is 60
+     * by default (i.e. the durations are in hours).
+     */
+    unit?: number;
+
+    /**
+     * The types of vehicle of `expectedOfType`; by default, the types required
+     * by the orders.
+     */
+    types?: string[];
+
+    /**
+     * The first day of the history; by default, the day of the first order.
+     */
+    from?: Date;
+
+    /**
+     * The last day of the history (included); by default, the day of the last
+     * order.
+     */
+    to?: Date;
+  }
+
+  /**
+   * The forecast demand of each timeslice.
+   */
+  export interface Forecast {
+    /**
+     * For each timeslice, the expected number of orders (including those that
+     * require a type of vehicle).
+     */
+    orders: number[];
+
+    /**
+     * For each timeslice, the expected number of riders.
+     */
+    expected: number[];
+
+    /**
+     * For each type, for each timeslice, the expected number of riders with
+     * a vehicle of that type.
+     */
+    expectedOfType: Record<string, number[]>;
+
+    /**
+     * For each timeslice, the lower end of the confidence band of the
+     * expected number of riders.
+     */
+    lower: number[];
+
+    /**
+     * For each timeslice, the upper end of the confidence band of the
+     * expected number of riders.
+     */
+    upper: number[];
+  }
+
+  const HOUR = 60 * 60 * 1000;
+
+  /**
+   * The statistics of the orders of a bucket (day of the week and hour).
+   */
+  interface Bucket {
+    mean: number;
+    variance: number;
+  }
+
+  /**
+   * Compute the statistics of the orders for each day of the week and hour.
+   *
+   * @param orders - The orders of the history.
+   * @param from - The first day of the history.
+   * @param to - The last day of the history.
+   * @param weight - The weight of each order.
+   * @returns For each day of the week (0 is Sunday), for each hour, the
+   * statistics of the weighted orders.
+   */
+  function makeBuckets(orders: Order[], from: Date, to: Date, weight: (order: Order) => number): Bucket[][] {
+    const counts: Record<string, number[]> = {};
+    const key = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+    for (const order of orders) {
+      const k = key(order.time);
+      counts[k] = counts[k] ?? [];
+      counts[k][order.time.getHours()] = (counts[k][order.time.getHours()] ?? 0) + weight(order);
+    }
+
+    const samples: number[][][] = [];
+    for (let day = 0; day < 7; day += 1) {
+      samples.push([]);
+      for (let hour = 0; hour < 24; hour += 1) {
+        samples[day].push([]);
+      }
+    }
+    for (let i = 0; ; i += 1) {
+      const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + i);
+      if (date > to) {
+        break;
+      }
+      const c = counts[key(date)] ?? [];
+      samples[date.getDay()].forEach((s, hour) => s.push(c[hour] ?? 0));
+    }
+
+    return samples.map((day) =>
+      day.map((s) => {
+        const mean = s.reduce((sum, x) => sum + x, 0) / Math.max(1, s.length);
+        const variance = s.reduce((sum, x) => sum + (x - mean) * (x - mean), 0) / Math.max(1, s.length - 1);
+        return { mean, variance };
+      }),
+    );
+  }
+
+  /**
+   * Forecast the demand of the given timeslices from the history of the
+   * orders.
+   *
+   * @param orders - The orders of the history.
+   * @param start - The start of the first timeslice (the timeslices are
+   * consecutive), or the start of each timeslice.
+   * @param duration - The duration of each timeslice.
+   * @param options - The settings of the forecast.
+   * @returns The expected number of orders and of riders in each timeslice,
+   * ready for {@link scheduling.makeLP}.
+   */
+  export function forecastDemand(
+    orders: Order[],
+    start: Date | Date[],
+    duration: number[],
+    options: Options,
+  ): Forecast {
+    const { ordersPerRiderHour, referenceDistance } = options;
+    const safetyMargin = options.safetyMargin ?? 0;
+    const z = options.z ?? 1.96;
+    const unit = (options.unit ?? 60) * 60 * 1000;
+    if (!(0 < ordersPerRiderHour) || !(0 <= safetyMargin) || !(0 <= z) || !(0 < unit)) {
+      throw new Error('Invalid forecast options');
+    }
+    if (Array.isArray(start) && start.length !== duration.length) {
+      throw new Error('The number of starts does not match the number of timeslices');
+    }
+    if (!orders.length && !(options.from && options.to)) {
+      throw new Error('The history has no orders');
+    }
+
+    const times = orders.map((order) => order.time.getTime());
+    // a long history is too large to be spread into the arguments of Math.min
+    const from = options.from ?? new Date(times.reduce((min, t) => Math.min(min, t), Infinity));
+    const to = options.to ?? new Date(times.reduce((max, t) => Math.max(max, t), -Infinity));
+    const types =
+      options.types ??
+      orders.reduce((r, { type }) => (type === undefined || r.indexOf(type) >= 0 ? r : [...r, type]), [] as string[]);
+
+    const weight = (order: Order) =>
+      referenceDistance && order.distance !== undefined ? Math.max(1, order.distance / referenceDistance) : 1;
+    const all = makeBuckets(orders, from, to, weight);
+    const ofType = types.map((type) =>
+      makeBuckets(
+        orders.filter((order) => order.type === type),
+        from,
+        to,
+        weight,
+      ),
+    );
+
+    // the mean and the variance of the orders of each timeslice
+    const starts = Array.isArray(start)
+      ? start.map((s) => s.getTime())
+      : duration.map((_, t) => start.getTime() + duration.slice(0, t).reduce((sum, d) => sum + d, 0) * unit);
+    const sum = (buckets: Bucket[][], t: number) => {
+      const end = starts[t] + duration[t] * unit;
+      let mean = 0;
+      let variance = 0;
+      for (let time = starts[t]; time < end; ) {
+        const date = new Date(time);
+        const next = Math.min(end, new Date(time).setMinutes(0, 0, 0) + HOUR);
+        const { mean: m, variance: v } = buckets[date.getDay()][date.getHours()];
+        const fraction = (next - time) / HOUR;
+        mean += m * fraction;
+        variance += v * fraction * fraction;
+        time = next;
+      }
+      return { mean, variance };
+    };
+
+    // rounding errors must not require one more rider
+    const riders = (numOrders: number, t: number) =>
+      duration[t]
+        ? Math.ceil((numOrders * (1 + safetyMargin)) / (ordersPerRiderHour * duration[t] * (unit / HOUR)) - 1e-9)
+        : 0;
+
+    const total = duration.map((_, t) => sum(all, t));
+    const expectedOfType: Record<string, number[]> = {};
+    types.forEach((type, i) => (expectedOfType[type] = duration.map((_, t) => riders(sum(ofType[i], t).mean, t))));
+    return {
+      orders: total.map(({ mean }) => mean),
+      expected: total.map(({ mean }, t) => riders(mean, t)),
+      expectedOfType,
+      lower: total.map(({ mean, variance }, t) => riders(Math.max(0, mean - z * Math.sqrt(variance)), t)),
+      upper: total.map(({ mean, variance }, t) => riders(mean + z * Math.sqrt(variance), t)),
+    };
+  }
+}
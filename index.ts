@@ -1,5 +1,19 @@
 /// <reference path="lp.ts" />
+/// <reference path="model.ts" />
+/// <reference path="milp.ts" />
+/// <reference path="solution.ts" />
+/// <reference path="export.ts" />
+/// <reference path="parse.ts" />
+/// <reference path="problem.ts" />
+/// <reference path="calendar.ts" />
 /// <reference path="scheduling.ts" />
+/// <reference path="validate.ts" />
+/// <reference path="scenario.ts" />
+/// <reference path="forecast.ts" />
+/// <reference path="report.ts" />
+/// <reference path="sheets.ts" />
+/// <reference path="benchmark.ts" />
+/// <reference path="cli.ts" />
 
 const minDuration = 2; // assign only slots of 2 consecutive hours (or more)
 
@@ -170,4 +184,9 @@ const linProgram = scheduling.makeLP(
   minDuration,
 );
 
-console.log(linProgram.export());
+// with arguments, run the command-line tool instead of printing the example
+if (typeof process !== 'undefined' && process.argv.length > 2) {
+  process.exitCode = cli.run(process.argv.slice(2), cli.nodeIO());
+} else {
+  console.log(linProgram.export());
+}
@@ -11,19 +11,9 @@
    * @typeParam T - The type of the auxiliary payload of the variables.
    */
   export class LinExpr<T> {
-    private readonly keys: Record<string, Var<T>> = {};
-    private readonly values: Record<string, number> = {};
-
-    /**
-     * Check if a variable matches the one with the same name in the expression.
-     *
-     * @throws If the expression contains another variable with the same name.
-     */
-    private checkVar(v: Var<T>): void {
-      if (this.keys[v.name] && this.keys[v.name] !== v) {
-        throw new Error(`Mismatching variable named ${v.name}`);
-      }
-    }
+    // the terms are keyed by the variables themselves (in insertion order),
+    // which is much cheaper than by their names on large programs
+    private readonly terms = new Map<Var<T>, number>();
 
     /**
      * Set the coefficient of a `(coeff * var)` term of the expression.
@@ -32,9 +22,7 @@
      * @param n - The new coefficient.
      */
     setCoefficient(v: Var<T>, n: number): void {
-      this.checkVar(v);
-      this.keys[v.name] = v;
-      this.values[v.name] = n;
+      this.terms.set(v, n);
     }
 
     /**
@@ -45,8 +33,7 @@
      * does not contain a term with variable `v`).
      */
     getCoefficient(v: Var<T>): number | undefined {
-      this.checkVar(v);
-      return this.values[v.name];
+      return this.terms.get(v);
     }
 
     /**
@@ -56,7 +43,29 @@
      * as an array of pairs `[var, coeff]`.
      */
     getVarCoefficients(): ReadonlyArray<readonly [Var<T>, number]> {
-      return Object.keys(this.keys).map((name) => [this.keys[name], this.values[name]] as const);
+      const r: Array<readonly [Var<T>, number]> = [];
+      this.terms.forEach((n, v) => r.push([v, n] as const));
+      return r;
+    }
+
+    /**
+     * Get the number of terms of the expression.
+     *
+     * @returns The number of `(coeff * var)` terms of the expression.
+     */
+    size(): number {
+      return this.terms.size;
+    }
+
+    /**
+     * Evaluate the expression for the given values of the variables.
+     *
+     * @param solution - The value of each variable, as returned by
+     * {@link lp.minimize} (the missing variables are assumed to be 0).
+     * @returns The value of the expression.
+     */
+    evaluate(solution: LinExpr<T>): number {
+      return this.getVarCoefficients().reduce((sum, [v, c]) => sum + c * (solution.getCoefficient(v) ?? 0), 0);
     }
 
     /**
@@ -292,8 +301,9 @@
    * @param objective - The objective expression.
    * @param constraints - The constraints.
    * @returns The new linear expression
+   * @throws If two different variables have the same name.
    */
-  function saturate<T>(objective: LinExpr<T>, constraints: Constraint<T>[]): LinExpr<T> {
+  export function saturate<T>(objective: LinExpr<T>, constraints: Constraint<T>[]): LinExpr<T> {
     const newObjective = new LinExpr<T>();
     for (const constraint of constraints) {
       for (const [v] of constraint.getVarCoefficients()) {
@@ -304,64 +314,232 @@
       newObjective.setCoefficient(v, coefficient);
     }
 
+    const names: Record<string, boolean> = {};
+    for (const [v] of newObjective.getVarCoefficients()) {
+      if (names[v.name]) {
+        throw new Error(`Mismatching variable named ${v.name}`);
+      }
+      names[v.name] = true;
+    }
+
     return newObjective;
   }
 
+  /**
+   * The outcome of solving a linear program:
+   *
+   *  - `optimal` if the solution is proven to be optimal;
+   *
+   *  - `feasible` if a solution was found, but it could not be proven optimal
+   *    within the time limit;
+   *
+   *  - `infeasible` if the program has no solution;
+   *
+   *  - `error` if no solution was found for other reasons (e.g. the program is
+   *    unbounded, or the time limit expired before finding a solution).
+   */
+  export type Status = 'optimal' | 'feasible' | 'infeasible' | 'error';
+
+  /**
+   * The result of solving a linear program.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   */
+  export interface Result<T> {
+    /**
+     * The outcome of the solver.
+     */
+    status: Status;
+
+    /**
+     * The value of each variable (only if a solution was found).
+     */
+    solution?: LinExpr<T>;
+  }
+
+  /**
+   * A (mixed-integer) linear program solver.
+   *
+   * @remarks
+   *
+   * Implementations receive an objective that has already been saturated, i.e.
+   * that mentions every variable of the program (see {@link lp.minimize}).
+   */
+  export interface Solver {
+    /**
+     * Solve a linear program by minimizing the objective within the constraints.
+     *
+     * @typeParam T - The type of the auxiliary payload of the variables.
+     * @param objective - The objective expression to be minimized.
+     * @param constraints - The constraints of the linear program.
+     * @returns The outcome of the solver, along with the solution (if any).
+     */
+    solve<T>(objective: LinExpr<T>, constraints: Constraint<T>[]): Result<T>;
+  }
+
+  /**
+   * A solver backed by the
+   * {@link https://developers.google.com/apps-script/reference/optimization/linear-optimization-service | LinearOptimizationService}
+   * provided by the Google Apps Script environment.
+   */
+  export class AppsScriptSolver implements Solver {
+    /**
+     * Create a solver backed by the Apps Script optimization engine.
+     *
+     * @param timeLimit - The maximum time (in seconds) the engine can run.
+     */
+    constructor(public readonly timeLimit = 5 * 60) {}
+
+    solve<T>(objective: LinExpr<T>, constraints: Constraint<T>[]): Result<T> {
+      const engine = LinearOptimizationService.createEngine();
+
+      // initialize vars and objective
+      for (const [v, objectiveCoefficient] of objective.getVarCoefficients()) {
+        const type =
+          v.type === 'continuous'
+            ? LinearOptimizationService.VariableType.CONTINUOUS
+            : LinearOptimizationService.VariableType.INTEGER;
+        // tslint:disable-next-line: prettier
+        engine.addVariable(
+          v.name,
+          v.lowerBound ?? -Infinity,
+          v.upperBound ?? +Infinity,
+          type,
+          objectiveCoefficient,
+        );
+      }
+
+      for (const constraint of constraints) {
+        // tslint:disable-next-line: prettier
+        const c = engine.addConstraint(
+          constraint.lowerBound ?? -Infinity,
+          constraint.upperBound ?? + Infinity,
+        );
+        for (const [v, coefficient] of constraint.getVarCoefficients()) {
+          c.setCoefficient(v.name, coefficient);
+        }
+      }
+
+      engine.setMinimization();
+      const engineSolution = engine.solve(this.timeLimit);
+      const engineStatus = engineSolution.getStatus();
+      if (!engineSolution.isValid()) {
+        return { status: engineStatus === LinearOptimizationService.Status.INFEASIBLE ? 'infeasible' : 'error' };
+      }
+
+      const solution = new LinExpr<T>();
+      for (const [v] of objective.getVarCoefficients()) {
+        solution.setCoefficient(v, engineSolution.getVariableValue(v.name));
+      }
+      return { status: engineStatus === LinearOptimizationService.Status.OPTIMAL ? 'optimal' : 'feasible', solution };
+    }
+  }
+
+  /**
+   * Get the solver that is most appropriate for the current environment.
+   *
+   * @returns The Apps Script solver when the
+   * {@link https://developers.google.com/apps-script/reference/optimization/linear-optimization-service | LinearOptimizationService}
+   * is available, otherwise the bundled {@link lp.BranchAndBoundSolver}.
+   */
+  export function defaultSolver(): Solver {
+    return typeof LinearOptimizationService === 'undefined' ? new BranchAndBoundSolver() : new AppsScriptSolver();
+  }
+
   /**
    * Solve a linear program by minimizing the objective within the constraints.
    *
    * @remarks
    *
-   * This function relies on an external LP solver
-   * ({@link https://developers.google.com/apps-script/reference/optimization/linear-optimization-service | LinearOptimizationService}).
+   * This function delegates the actual work to a {@link lp.Solver}; by default
+   * it relies on the external LP solver
+   * ({@link https://developers.google.com/apps-script/reference/optimization/linear-optimization-service | LinearOptimizationService})
+   * when running inside Google Apps Script and on the bundled
+   * {@link lp.BranchAndBoundSolver} elsewhere (e.g. in Node).
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   * @param model - The linear program (its objective is maximized if so
+   * specified by its sense).
+   * @param solver - The solver used to find the solution.
+   * @returns The solution, or `undefined` if no solution was found.
+   */
+  export function minimize<T>(model: Model<T>, solver?: Solver): LinExpr<T> | undefined;
+
+  /**
+   * Solve a linear program by minimizing the objective within the constraints.
    *
    * @typeParam T - The type of the auxiliary payload of the variables.
    * @param objective - The objective expression to be minimized.
    * @param constraints - The constraints of the linear program.
+   * @param solver - The solver used to find the solution.
    * @returns The solution, or `undefined` if no solution was found.
    */
-  export function minimize<T>(objective: LinExpr<T>, constraints: Constraint<T>[]): LinExpr<T> | undefined {
-    const newObjective = saturate(objective, constraints);
-    const engine = LinearOptimizationService.createEngine();
-
-    // initialize vars and objective
-    for (const [v, objectiveCoefficient] of newObjective.getVarCoefficients()) {
-      const type =
-        v.type === 'continuous'
-          ? LinearOptimizationService.VariableType.CONTINUOUS
-          : LinearOptimizationService.VariableType.INTEGER;
-      // tslint:disable-next-line: prettier
-      engine.addVariable(
-        v.name,
-        v.lowerBound ?? -Infinity,
-        v.upperBound ?? +Infinity,
-        type,
-        objectiveCoefficient,
-      );
-    }
+  export function minimize<T>(
+    objective: LinExpr<T>,
+    constraints: Constraint<T>[],
+    solver?: Solver,
+  ): LinExpr<T> | undefined;
 
-    for (const constraint of constraints) {
-      // tslint:disable-next-line: prettier
-      const c = engine.addConstraint(
-        constraint.lowerBound ?? -Infinity,
-        constraint.upperBound ?? + Infinity,
-      );
-      for (const [v, coefficient] of constraint.getVarCoefficients()) {
-        c.setCoefficient(v.name, coefficient);
-      }
-    }
+  export function minimize<T>(...args: ModelArgs<T>): LinExpr<T> | undefined {
+    return solve(...(args as [LinExpr<T>, Constraint<T>[], Solver?])).solution;
+  }
 
-    engine.setMinimization();
-    const solution = engine.solve(5 * 60);
-    if (!solution.isValid()) {
-      return undefined;
-    }
+  /**
+   * The arguments of the functions that accept either a {@link lp.Model} or
+   * an objective and its constraints.
+   */
+  type ModelArgs<T> = [Model<T>, Solver?] | [LinExpr<T>, Constraint<T>[], Solver?];
 
-    const result = new LinExpr<T>();
-    for (const [v] of newObjective.getVarCoefficients()) {
-      result.setCoefficient(v, solution.getVariableValue(v.name));
+  /**
+   * Get the objective to be minimized and the constraints of a linear program.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   * @param args - Either a model and a solver, or an objective, its
+   * constraints and a solver.
+   * @returns The saturated objective (see {@link lp.saturate}), the
+   * constraints and the solver.
+   */
+  function fromModelArgs<T>(args: ModelArgs<T>): [LinExpr<T>, Constraint<T>[], Solver] {
+    if (args[0] instanceof Model) {
+      const [model, solver] = args as [Model<T>, Solver?];
+      return [model.saturate(), model.getConstraints(), solver ?? defaultSolver()];
     }
-    return result;
+    const [objective, constraints, solver] = args as [LinExpr<T>, Constraint<T>[], Solver?];
+    return [saturate(objective, constraints), constraints, solver ?? defaultSolver()];
+  }
+
+  /**
+   * Solve a linear program by minimizing the objective within the constraints,
+   * reporting the outcome of the solver.
+   *
+   * @remarks
+   *
+   * This is the same as {@link lp.minimize}, but it also tells whether the
+   * solution is optimal and why no solution was found.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   * @param model - The linear program (its objective is maximized if so
+   * specified by its sense).
+   * @param solver - The solver used to find the solution.
+   * @returns The outcome of the solver, along with the solution (if any).
+   */
+  export function solve<T>(model: Model<T>, solver?: Solver): Result<T>;
+
+  /**
+   * Solve a linear program by minimizing the objective within the constraints,
+   * reporting the outcome of the solver.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   * @param objective - The objective expression to be minimized.
+   * @param constraints - The constraints of the linear program.
+   * @param solver - The solver used to find the solution.
+   * @returns The outcome of the solver, along with the solution (if any).
+   */
+  export function solve<T>(objective: LinExpr<T>, constraints: Constraint<T>[], solver?: Solver): Result<T>;
+
+  export function solve<T>(...args: ModelArgs<T>): Result<T> {
+    const [objective, constraints, solver] = fromModelArgs(args);
+    return solver.solve(objective, constraints);
   }
 
   /**
@@ -373,13 +551,26 @@
    * solved with most free and commercial solvers for debugging, benchmarking...
    *
    * @typeParam T - The type of the auxiliary payload of the variables.
+   * @param model - The linear program.
+   * @returns The program, as a string.
+   */
+  export function exportAsLP<T>(model: Model<T>): string;
+
+  /**
+   * Export a linear program in LP format.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
    * @param objective - The objective expression to be minimized.
    * @param constraints - The constraints of the linear program.
-   * @returns The solution, or `undefined` if no solution was found.
+   * @returns The program, as a string.
    */
-  export function exportAsLP<T>(objective: LinExpr<T>, constraints: Constraint<T>[]) {
-    const newObjective = saturate(objective, constraints);
-    const vars = newObjective.getVarCoefficients().map(([v]) => v);
+  export function exportAsLP<T>(objective: LinExpr<T>, constraints: Constraint<T>[]): string;
+
+  export function exportAsLP<T>(...args: [Model<T>] | [LinExpr<T>, Constraint<T>[]]) {
+    const [objective, constraints, sense, vars] =
+      args[0] instanceof Model
+        ? [args[0].objective, args[0].getConstraints(), args[0].sense, args[0].getVars()]
+        : [args[0], args[1]!, 'minimize', saturate(args[0], args[1]!).getVarCoefficients().map(([v]) => v)];
 
     const binVars = vars.filter((v) => v.isBool());
     const intVars = vars.filter((v) => v.isInt());
@@ -387,7 +578,21 @@
       .filter((v) => !v.isBool())
       .filter((v) => v.lowerBound !== undefined || v.upperBound !== undefined);
 
-    const c = [...constrainedVars.map((v) => v.toConstraint()), ...constraints];
+    // lp_solve reads a named constraint on a single variable as a constraint,
+    // keeping the default bound `x >= 0`, hence the negative (or missing) lower
+    // bounds are written as unnamed bounds, where -1e30 is minus infinity
+    const toBound = (v: Var<T>) => {
+      const r = new Constraint<T>('', v.lowerBound ?? -1e30, v.upperBound);
+      r.setCoefficient(v, 1);
+      return r;
+    };
+    const boundedVars = vars.filter((v) => !v.isBool() && (v.lowerBound === undefined || v.lowerBound < 0));
+
+    const c = [
+      ...constrainedVars.filter((v) => boundedVars.indexOf(v) < 0).map((v) => v.toConstraint()),
+      ...boundedVars.map(toBound),
+      ...constraints,
+    ];
     let footer = '';
     if (binVars.length) {
       footer += `bin ${binVars.map((v) => v.name).join(', ')};\n`;
@@ -396,7 +601,7 @@
       footer += `int ${intVars.map((v) => v.name).join(', ')};\n`;
     }
 
-    return `minimize: ${objective};
+    return `${sense}: ${objective};
 ${c.map((c) => `${c.toLP()};\n`).join('')}
 ${footer}`;
   }
@@ -0,0 +1,705 @@
+/// <reference path="lp.ts" />
+
+/**
+ * This is a self-contained (mixed-integer) linear program solver, written in
+ * plain TypeScript so that the models built with {@link lp} can be solved in
+ * any environment (Node, unit tests, servers...), not only inside Google Apps
+ * Script.
+ *
+ * @privateRemarks
+ *
+ * The continuous relaxations are solved with a bounded-variable primal simplex
+ * on a dense tableau. Each constraint `lower <= ∑ a[j] * x[j] <= upper` is
+ * turned into the equality `∑ a[j] * x[j] - s = 0` over a slack variable `s`
+ * whose bounds are `lower` and `upper`, so that both the variables and the
+ * constraints are handled uniformly as bounds.
+ *
+ * The first phase starts from a basis of artificial variables and minimizes
+ * their sum; the second phase fixes them to 0 and minimizes the objective.
+ *
+ * Since the tableau is updated in place, the rounding errors of the pivots
+ * accumulate: the ratio tests follow Harris' two passes, which prefer the
+ * largest pivots among the almost tied ones, and the basic values and the
+ * reduced costs are periodically recomputed from the rows of the program (the
+ * columns of the artificial variables hold the inverse of the basis), and
+ * always before a relaxation is declared optimal or infeasible.
+ *
+ * The integer variables are then handled by a depth-first branch-and-bound,
+ * which splits the domain of the most fractional variable at each node. The
+ * children of a node are re-optimized from the tableau of their parent with
+ * the dual simplex, since only the bound of one variable has changed.
+ */
+namespace lp {
+  const EPSILON = 1e-9;
+  const INTEGRALITY_TOLERANCE = 1e-6;
+
+  /**
+   * The smallest pivot, relative to the largest entry of its column (or row,
+   * in the dual simplex), since tiny pivots blow up the rounding errors.
+   */
+  const PIVOT_TOLERANCE = 1e-7;
+
+  /**
+   * How much the first pass of the ratio tests relaxes the bounds of the basic
+   * variables (or the signs of the reduced costs, in the dual simplex).
+   */
+  const HARRIS_TOLERANCE = 1e-7;
+
+  /**
+   * After this many iterations, the basic values and the reduced costs are
+   * recomputed instead of updated.
+   */
+  const REFRESH_INTERVAL = 50;
+
+  /**
+   * After this many consecutive degenerate pivots, the simplex switches to
+   * Bland's rule to avoid cycling.
+   */
+  const MAX_DEGENERATE_PIVOTS = 50;
+
+  /**
+   * The maximum number of pending nodes of the branch-and-bound search that
+   * keep a copy of the tableau of their parent (to bound the memory usage).
+   */
+  const MAX_WARM_STARTS = 64;
+
+  /**
+   * A linear program in dense numeric form, with variables identified by index.
+   */
+  interface NumericProgram {
+    cost: number[];
+    integer: boolean[];
+    lowerBound: number[];
+    upperBound: number[];
+    rows: Array<ReadonlyArray<readonly [number, number]>>;
+    rowLowerBound: number[];
+    rowUpperBound: number[];
+  }
+
+  /**
+   * A bounded-variable simplex tableau for the continuous relaxation of a
+   * linear program.
+   *
+   * @remarks
+   *
+   * The tableau can be solved from scratch with the (two phase) primal
+   * simplex, and it can then be re-optimized with the dual simplex after the
+   * bounds of some variables have been tightened, which is what happens at
+   * each node of the branch-and-bound search.
+   */
+  class Simplex {
+    private readonly n: number;
+    private readonly m: number;
+    private readonly numColumns: number;
+
+    private lower!: Float64Array;
+    private upper!: Float64Array;
+    private x!: Float64Array;
+    private cost!: Float64Array;
+    private reducedCost!: Float64Array;
+    private tableau!: Float64Array[];
+    private basis!: number[];
+    private isBasic!: Uint8Array;
+    private rowSign!: Float64Array;
+
+    /**
+     * Create a tableau for the given linear program.
+     *
+     * @param program - The linear program.
+     */
+    constructor(private readonly program: NumericProgram) {
+      this.n = program.cost.length;
+      this.m = program.rows.length;
+      this.numColumns = this.n + 2 * this.m;
+    }
+
+    /**
+     * Create a copy of the tableau, which can be modified independently.
+     *
+     * @returns The copy.
+     */
+    clone(): Simplex {
+      const r = new Simplex(this.program);
+      r.lower = new Float64Array(this.lower);
+      r.upper = new Float64Array(this.upper);
+      r.x = new Float64Array(this.x);
+      r.cost = this.cost;
+      r.reducedCost = new Float64Array(this.reducedCost);
+      r.tableau = this.tableau.map((row) => new Float64Array(row));
+      r.basis = this.basis.slice();
+      r.isBasic = new Uint8Array(this.isBasic);
+      r.rowSign = this.rowSign;
+      return r;
+    }
+
+    /**
+     * Get the values of the variables of the program.
+     *
+     * @returns The current value of each variable.
+     */
+    values(): number[] {
+      const values: number[] = [];
+      for (let j = 0; j < this.n; j += 1) {
+        values.push(this.x[j]);
+      }
+      return values;
+    }
+
+    /**
+     * Get the value of the objective of the program.
+     *
+     * @returns The current value of the objective.
+     */
+    objective(): number {
+      let r = 0;
+      for (let j = 0; j < this.n; j += 1) {
+        r += this.program.cost[j] * this.x[j];
+      }
+      return r;
+    }
+
+    /**
+     * Solve the relaxation from scratch, within the given variable bounds.
+     *
+     * @param lowerBound - The lower bound of each variable.
+     * @param upperBound - The upper bound of each variable.
+     * @param deadline - The time (as per `Date.now()`) when the search must stop.
+     * @returns The status of the relaxation.
+     */
+    solve(
+      lowerBound: ReadonlyArray<number>,
+      upperBound: ReadonlyArray<number>,
+      deadline: number,
+    ): 'optimal' | 'infeasible' | 'unbounded' | 'timeout' {
+      const { n, m, numColumns, program } = this;
+
+      // columns are laid out as: variables (n), slacks (m), artificials (m)
+      const lower = (this.lower = new Float64Array(numColumns));
+      const upper = (this.upper = new Float64Array(numColumns));
+      for (let j = 0; j < n; j += 1) {
+        lower[j] = lowerBound[j];
+        upper[j] = upperBound[j];
+      }
+      for (let i = 0; i < m; i += 1) {
+        lower[n + i] = program.rowLowerBound[i];
+        upper[n + i] = program.rowUpperBound[i];
+        lower[n + m + i] = 0;
+        upper[n + m + i] = +Infinity;
+      }
+      for (let j = 0; j < n + m; j += 1) {
+        if (lower[j] > upper[j] + EPSILON) {
+          return 'infeasible';
+        }
+      }
+
+      // nonbasic variables start from a finite bound (or 0 if they are free)
+      const x = (this.x = new Float64Array(numColumns));
+      for (let j = 0; j < n + m; j += 1) {
+        x[j] = isFinite(lower[j]) ? lower[j] : isFinite(upper[j]) ? upper[j] : 0;
+      }
+
+      this.tableau = [];
+      this.basis = [];
+      this.isBasic = new Uint8Array(numColumns);
+      this.rowSign = new Float64Array(m);
+      for (let i = 0; i < m; i += 1) {
+        const row = new Float64Array(numColumns);
+        let residual = x[n + i];
+        for (const [j, a] of program.rows[i]) {
+          row[j] += a;
+          residual -= a * x[j];
+        }
+        row[n + i] = -1;
+
+        // the artificial variable absorbs the initial residual of the row, and
+        // the row is scaled so that the artificial column is the unit vector
+        this.rowSign[i] = residual < 0 ? -1 : 1;
+        if (residual < 0) {
+          for (let j = 0; j < n + m; j += 1) {
+            row[j] = -row[j];
+          }
+        }
+        row[n + m + i] = 1;
+        x[n + m + i] = Math.abs(residual);
+        this.tableau.push(row);
+        this.basis.push(n + m + i);
+        this.isBasic[n + m + i] = 1;
+      }
+
+      const phase1Cost = new Float64Array(numColumns);
+      for (let i = 0; i < m; i += 1) {
+        phase1Cost[n + m + i] = 1;
+      }
+      const phase1 = this.primal(phase1Cost, deadline);
+      if (phase1 === 'timeout') {
+        return phase1;
+      }
+
+      // the basic values have just been recomputed, hence they are not
+      // affected by the rounding errors of the pivots
+      let infeasibility = 0;
+      for (let i = 0; i < m; i += 1) {
+        infeasibility += x[n + m + i];
+      }
+      if (infeasibility > INTEGRALITY_TOLERANCE) {
+        return 'infeasible';
+      }
+
+      for (let i = 0; i < m; i += 1) {
+        upper[n + m + i] = 0;
+      }
+      const phase2Cost = new Float64Array(numColumns);
+      for (let j = 0; j < n; j += 1) {
+        phase2Cost[j] = program.cost[j];
+      }
+      return this.primal(phase2Cost, deadline);
+    }
+
+    /**
+     * Tighten the bounds of a variable and re-optimize with the dual simplex.
+     *
+     * @param j - The index of the variable.
+     * @param lowerBound - The new lower bound of the variable.
+     * @param upperBound - The new upper bound of the variable.
+     * @param deadline - The time (as per `Date.now()`) when the search must stop.
+     * @returns The status of the relaxation.
+     */
+    tighten(j: number, lowerBound: number, upperBound: number, deadline: number): 'optimal' | 'infeasible' | 'timeout' {
+      if (lowerBound > upperBound + EPSILON) {
+        return 'infeasible';
+      }
+      this.lower[j] = lowerBound;
+      this.upper[j] = upperBound;
+      if (!this.isBasic[j]) {
+        const value = Math.min(Math.max(this.x[j], lowerBound), upperBound);
+        this.move(j, value - this.x[j]);
+      }
+      return this.dual(deadline);
+    }
+
+    /**
+     * Move a nonbasic variable, updating the basic ones accordingly.
+     *
+     * @param q - The index of the nonbasic variable.
+     * @param delta - The change of its value.
+     */
+    private move(q: number, delta: number): void {
+      if (delta) {
+        this.x[q] += delta;
+        for (let i = 0; i < this.m; i += 1) {
+          this.x[this.basis[i]] -= this.tableau[i][q] * delta;
+        }
+      }
+    }
+
+    /**
+     * Recompute the basic values from the nonbasic ones and the rows of the
+     * program, and the reduced costs from the current cost.
+     *
+     * @remarks
+     *
+     * The initial rows `rowSign[i] * (∑ a[i][j] * x[j] - s[i]) + t[i] = 0`
+     * (where `t` are the artificial variables) are `M * x = 0`, and the
+     * tableau is `B⁻¹ * M`, whose columns of the artificial variables are
+     * `B⁻¹`, hence the basic values are `-B⁻¹ * (M * x)` over the nonbasic
+     * variables.
+     */
+    private refresh(): void {
+      const { n, m, numColumns, program, tableau, basis, isBasic, x, cost, reducedCost, rowSign } = this;
+      const nonbasic = new Float64Array(m);
+      for (let i = 0; i < m; i += 1) {
+        let r = isBasic[n + i] ? 0 : -x[n + i];
+        for (const [j, a] of program.rows[i]) {
+          if (!isBasic[j]) {
+            r += a * x[j];
+          }
+        }
+        nonbasic[i] = rowSign[i] * r + (isBasic[n + m + i] ? 0 : x[n + m + i]);
+      }
+      for (let i = 0; i < m; i += 1) {
+        const row = tableau[i];
+        let value = 0;
+        for (let k = 0; k < m; k += 1) {
+          value -= row[n + m + k] * nonbasic[k];
+        }
+        x[basis[i]] = value;
+      }
+
+      reducedCost.set(cost);
+      for (let i = 0; i < m; i += 1) {
+        const c = cost[basis[i]];
+        if (c !== 0) {
+          const row = tableau[i];
+          for (let j = 0; j < numColumns; j += 1) {
+            reducedCost[j] -= c * row[j];
+          }
+        }
+      }
+    }
+
+    /**
+     * Swap a basic variable with a nonbasic one, updating the reduced costs.
+     *
+     * @param r - The row of the leaving (basic) variable.
+     * @param q - The index of the entering (nonbasic) variable.
+     */
+    private pivot(r: number, q: number): void {
+      const { m, numColumns, tableau, reducedCost } = this;
+      const pivotRow = tableau[r];
+      const p = pivotRow[q];
+      for (let j = 0; j < numColumns; j += 1) {
+        pivotRow[j] /= p;
+      }
+      for (let i = 0; i < m; i += 1) {
+        const row = tableau[i];
+        const f = row[q];
+        if (i !== r && f !== 0) {
+          for (let j = 0; j < numColumns; j += 1) {
+            row[j] -= f * pivotRow[j];
+          }
+        }
+      }
+      const d = reducedCost[q];
+      if (d !== 0) {
+        for (let j = 0; j < numColumns; j += 1) {
+          reducedCost[j] -= d * pivotRow[j];
+        }
+      }
+      this.isBasic[this.basis[r]] = 0;
+      this.isBasic[q] = 1;
+      this.basis[r] = q;
+    }
+
+    /**
+     * Minimize the given cost with the primal simplex, starting from a feasible
+     * basis.
+     *
+     * @param cost - The cost of each column.
+     * @param deadline - The time (as per `Date.now()`) when the search must stop.
+     * @returns The status of the relaxation.
+     */
+    private primal(cost: Float64Array, deadline: number): 'optimal' | 'unbounded' | 'timeout' {
+      const { m, numColumns, tableau, basis, isBasic, x, lower, upper } = this;
+      this.cost = cost;
+      const reducedCost = (this.reducedCost = new Float64Array(numColumns));
+      this.refresh();
+
+      let degeneratePivots = 0;
+      let sinceRefresh = 0;
+      for (let iteration = 0; ; iteration += 1) {
+        if (iteration % 100 === 0 && Date.now() > deadline) {
+          return 'timeout';
+        }
+        if (sinceRefresh === REFRESH_INTERVAL) {
+          this.refresh();
+          sinceRefresh = 0;
+        }
+
+        // pricing: Dantzig's rule, or Bland's rule while stalling
+        const bland = degeneratePivots > MAX_DEGENERATE_PIVOTS;
+        let q = -1;
+        let direction = 0;
+        let best = 0;
+        for (let j = 0; j < numColumns; j += 1) {
+          if (isBasic[j] || upper[j] - lower[j] <= EPSILON) {
+            continue;
+          }
+          const d = reducedCost[j];
+          if (d < -EPSILON && x[j] < upper[j] - EPSILON && -d > best) {
+            q = j;
+            direction = +1;
+            best = bland ? Infinity : -d;
+          } else if (d > EPSILON && x[j] > lower[j] + EPSILON && d > best) {
+            q = j;
+            direction = -1;
+            best = bland ? Infinity : d;
+          }
+        }
+        if (q < 0 && sinceRefresh) {
+          // the optimality is checked again on the recomputed reduced costs
+          this.refresh();
+          sinceRefresh = 0;
+          continue;
+        } else if (q < 0) {
+          return 'optimal';
+        }
+        sinceRefresh += 1;
+
+        // ratio test: the entering variable can move until it reaches its
+        // other bound, or until a basic variable reaches one of its bounds;
+        // the first pass finds the step with the bounds relaxed, the second
+        // one the largest pivot among the basic variables that reach their
+        // bound within that step (or the first one, while stalling)
+        let largest = 1;
+        for (let i = 0; i < m; i += 1) {
+          largest = Math.max(largest, Math.abs(tableau[i][q]));
+        }
+        const minPivot = PIVOT_TOLERANCE * largest;
+        let relaxedStep = upper[q] - lower[q];
+        for (let i = 0; i < m; i += 1) {
+          const alpha = tableau[i][q] * direction;
+          const k = basis[i];
+          if (alpha > minPivot) {
+            relaxedStep = Math.min(relaxedStep, (x[k] - lower[k] + HARRIS_TOLERANCE) / alpha);
+          } else if (alpha < -minPivot) {
+            relaxedStep = Math.min(relaxedStep, (x[k] - upper[k] - HARRIS_TOLERANCE) / alpha);
+          }
+        }
+        if (!isFinite(relaxedStep)) {
+          return 'unbounded';
+        }
+
+        let step = upper[q] - lower[q];
+        let r = -1;
+        let leavingValue = 0;
+        if (step > relaxedStep) {
+          for (let i = 0; i < m; i += 1) {
+            const alpha = tableau[i][q] * direction;
+            if (Math.abs(alpha) <= minPivot) {
+              continue;
+            }
+            const k = basis[i];
+            const bound = alpha > 0 ? lower[k] : upper[k];
+            if (
+              (x[k] - bound) / alpha <= relaxedStep &&
+              (r < 0 || (bland ? k < basis[r] : Math.abs(alpha) > Math.abs(tableau[r][q])))
+            ) {
+              r = i;
+              leavingValue = bound;
+            }
+          }
+          step = Math.max((x[basis[r]] - leavingValue) / (tableau[r][q] * direction), 0);
+        }
+
+        degeneratePivots = step <= EPSILON ? degeneratePivots + 1 : 0;
+        this.move(q, direction * step);
+        if (r >= 0) {
+          x[basis[r]] = leavingValue;
+          this.pivot(r, q);
+        }
+      }
+    }
+
+    /**
+     * Restore the feasibility of the basic variables with the dual simplex,
+     * starting from a dual feasible basis.
+     *
+     * @param deadline - The time (as per `Date.now()`) when the search must stop.
+     * @returns The status of the relaxation.
+     */
+    private dual(deadline: number): 'optimal' | 'infeasible' | 'timeout' {
+      const { m, numColumns, tableau, basis, isBasic, x, lower, upper, reducedCost } = this;
+      let sinceRefresh = 0;
+      for (let iteration = 0; ; iteration += 1) {
+        if (iteration % 100 === 0 && Date.now() > deadline) {
+          return 'timeout';
+        }
+        if (sinceRefresh === REFRESH_INTERVAL) {
+          this.refresh();
+          sinceRefresh = 0;
+        }
+
+        // the leaving variable is the most infeasible basic variable
+        let r = -1;
+        let worst = INTEGRALITY_TOLERANCE;
+        for (let i = 0; i < m; i += 1) {
+          const k = basis[i];
+          const infeasibility = Math.max(lower[k] - x[k], x[k] - upper[k]);
+          if (infeasibility > worst) {
+            r = i;
+            worst = infeasibility;
+          }
+        }
+        if (r < 0 && sinceRefresh) {
+          // the feasibility is checked again on the recomputed values
+          this.refresh();
+          sinceRefresh = 0;
+          continue;
+        } else if (r < 0) {
+          return 'optimal';
+        }
+
+        const k = basis[r];
+        const target = x[k] < lower[k] ? lower[k] : upper[k];
+        const sign = x[k] < lower[k] ? 1 : -1; // the leaving variable must increase (1) or decrease (-1)
+
+        // ratio test: the entering variable keeps the reduced costs feasible;
+        // as in the primal simplex, the first pass finds the largest ratio with
+        // the reduced costs relaxed, the second one the largest pivot within it
+        const row = tableau[r];
+        let largest = 1;
+        for (let j = 0; j < numColumns; j += 1) {
+          if (!isBasic[j]) {
+            largest = Math.max(largest, Math.abs(row[j]));
+          }
+        }
+        const minPivot = PIVOT_TOLERANCE * largest;
+        const canEnter = (j: number) => {
+          // moving x[j] by delta changes x[k] by -row[j] * delta
+          const alpha = -row[j] * sign;
+          return (
+            !isBasic[j] &&
+            upper[j] - lower[j] > EPSILON &&
+            ((alpha > minPivot && x[j] < upper[j] - EPSILON) || (alpha < -minPivot && x[j] > lower[j] + EPSILON))
+          );
+        };
+        let relaxedRatio = Infinity;
+        for (let j = 0; j < numColumns; j += 1) {
+          if (canEnter(j)) {
+            relaxedRatio = Math.min(relaxedRatio, (Math.abs(reducedCost[j]) + HARRIS_TOLERANCE) / Math.abs(row[j]));
+          }
+        }
+        let q = -1;
+        for (let j = 0; j < numColumns; j += 1) {
+          if (
+            canEnter(j) &&
+            Math.abs(reducedCost[j]) / Math.abs(row[j]) <= relaxedRatio &&
+            (q < 0 || Math.abs(row[j]) > Math.abs(row[q]))
+          ) {
+            q = j;
+          }
+        }
+        if (q < 0 && sinceRefresh) {
+          // the infeasibility is checked again on the recomputed values
+          this.refresh();
+          sinceRefresh = 0;
+          continue;
+        } else if (q < 0) {
+          return 'infeasible';
+        }
+        sinceRefresh += 1;
+
+        this.move(q, (x[k] - target) / row[q]);
+        x[k] = target;
+        this.pivot(r, q);
+      }
+    }
+  }
+
+  /**
+   * A solver for mixed-integer linear programs implemented in TypeScript.
+   *
+   * @remarks
+   *
+   * The solver uses a simplex algorithm for the continuous relaxations and a
+   * branch-and-bound search over the {@link lp.IntVar} (and
+   * {@link lp.BoolVar}) variables. It is meant for small and medium instances,
+   * such as the ones used in tests and in the examples; big instances are
+   * better exported (see {@link lp.exportAsLP}) and solved with a dedicated
+   * solver.
+   */
+  export class BranchAndBoundSolver implements Solver {
+    /**
+     * Create a branch-and-bound solver.
+     *
+     * @param timeLimit - The maximum time (in seconds) the search can run; when
+     * it expires, the best solution found so far (if any) is returned.
+     */
+    constructor(public readonly timeLimit = 5 * 60) {}
+
+    solve<T>(objective: LinExpr<T>, constraints: Constraint<T>[]): Result<T> {
+      const vars = objective.getVarCoefficients();
+      const index: Record<string, number> = {};
+      vars.forEach(([v], j) => (index[v.name] = j));
+
+      const program: NumericProgram = {
+        cost: vars.map(([, c]) => c),
+        integer: vars.map(([v]) => !v.isReal()),
+        lowerBound: vars.map(([v]) => v.lowerBound ?? -Infinity),
+        upperBound: vars.map(([v]) => v.upperBound ?? +Infinity),
+        rows: constraints.map((c) => c.getVarCoefficients().map(([v, a]) => [index[v.name], a] as const)),
+        rowLowerBound: constraints.map((c) => c.lowerBound ?? -Infinity),
+        rowUpperBound: constraints.map((c) => c.upperBound ?? +Infinity),
+      };
+
+      // the domain of integer variables can be tightened to integer bounds
+      program.integer.forEach((integer, j) => {
+        if (integer) {
+          program.lowerBound[j] = Math.ceil(program.lowerBound[j] - INTEGRALITY_TOLERANCE);
+          program.upperBound[j] = Math.floor(program.upperBound[j] + INTEGRALITY_TOLERANCE);
+        }
+      });
+
+      const deadline = Date.now() + this.timeLimit * 1000;
+      let incumbent: number[] | undefined;
+      let incumbentObjective = +Infinity;
+      let timeout = false;
+
+      // each node either carries the tableau of its parent, which is then
+      // re-optimized after tightening the bound of the branching variable, or
+      // it is solved from scratch
+      interface Node {
+        lowerBound: number[];
+        upperBound: number[];
+        warmStart?: { simplex: Simplex; branch: number };
+      }
+
+      const stack: Node[] = [{ lowerBound: program.lowerBound, upperBound: program.upperBound }];
+      while (stack.length && Date.now() <= deadline) {
+        const node = stack.pop()!;
+        let simplex: Simplex;
+        let status: 'optimal' | 'infeasible' | 'unbounded' | 'timeout';
+        if (node.warmStart) {
+          const { branch } = node.warmStart;
+          simplex = node.warmStart.simplex;
+          status = simplex.tighten(branch, node.lowerBound[branch], node.upperBound[branch], deadline);
+        } else {
+          simplex = new Simplex(program);
+          status = simplex.solve(node.lowerBound, node.upperBound, deadline);
+        }
+        if (status === 'unbounded') {
+          return { status: 'error' };
+        } else if (status === 'timeout') {
+          timeout = true;
+          break;
+        }
+        if (status !== 'optimal' || simplex.objective() >= incumbentObjective - INTEGRALITY_TOLERANCE) {
+          continue;
+        }
+        const values = simplex.values();
+
+        // branch on the most fractional integer variable
+        let branch = -1;
+        let fractionality = INTEGRALITY_TOLERANCE;
+        values.forEach((value, j) => {
+          const f = Math.abs(value - Math.round(value));
+          if (program.integer[j] && f > fractionality) {
+            branch = j;
+            fractionality = f;
+          }
+        });
+
+        if (branch < 0) {
+          incumbent = values.map((value, j) => (program.integer[j] ? Math.round(value) : value));
+          incumbentObjective = simplex.objective();
+          continue;
+        }
+
+        const value = values[branch];
+        const down: Node = { lowerBound: node.lowerBound, upperBound: node.upperBound.slice() };
+        down.upperBound[branch] = Math.floor(value);
+        const up: Node = { lowerBound: node.lowerBound.slice(), upperBound: node.upperBound };
+        up.lowerBound[branch] = Math.ceil(value);
+
+        // dive first towards the closest integer value, reusing the tableau;
+        // the other child gets a copy, unless the search is too deep
+        const [first, second] = value - Math.floor(value) > 0.5 ? [up, down] : [down, up];
+        first.warmStart = { simplex, branch };
+        if (stack.length < MAX_WARM_STARTS) {
+          second.warmStart = { simplex: simplex.clone(), branch };
+        }
+        stack.push(second, first);
+      }
+
+      // the search is complete unless the deadline expired
+      timeout = timeout || stack.length > 0;
+      if (!incumbent) {
+        return { status: timeout ? 'error' : 'infeasible' };
+      }
+
+      const solution = new LinExpr<T>();
+      vars.forEach(([v], j) => solution.setCoefficient(v, incumbent![j]));
+      return { status: timeout ? 'feasible' : 'optimal', solution };
+    }
+  }
+}
@@ -0,0 +1,319 @@
+/// <reference path="lp.ts" />
+
+/**
+ * This module defines a container for a linear program, which owns its
+ * variables, its objective (with its sense) and its constraints, so that they
+ * do not need to be passed around as loose arrays:
+ *
+ * ```ts
+ * const model = new lp.Model<void>();
+ * const x = model.intVar('x', 0, 10);
+ * const y = model.boolVar('y');
+ * model.addConstraint(model.le('capacity', model.add(x, model.scale(y, 5)), 12));
+ * model.setObjective(model.sum([x, y]), 'maximize');
+ * const solution = lp.minimize(model);
+ * ```
+ *
+ * The variables are registered by name, hence two different variables with
+ * the same name are rejected as soon as they are added (rather than when the
+ * program is solved or exported).
+ */
+namespace lp {
+  /**
+   * A variable of a linear program, of any type.
+   *
+   * @typeParam T - The type of the auxiliary payload.
+   */
+  export type Variable<T> = RealVar<T> | IntVar<T>;
+
+  /**
+   * Either a variable or a linear expression, as accepted by the expression
+   * helpers of {@link lp.Model}.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   */
+  export type Operand<T> = Variable<T> | LinExpr<T>;
+
+  /**
+   * Whether the objective of a linear program is minimized or maximized.
+   */
+  export type Sense = 'minimize' | 'maximize';
+
+  /**
+   * A linear program: its variables, its objective and its constraints.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   */
+  export class Model<T> {
+    /**
+     * The objective expression.
+     */
+    objective = new LinExpr<T>();
+
+    /**
+     * Whether the objective is minimized or maximized.
+     */
+    sense: Sense = 'minimize';
+
+    private readonly vars = new Map<string, Variable<T>>();
+
+    private readonly constraints: Array<Constraint<T>> = [];
+
+    private readonly constraintsByName = new Map<string, Constraint<T>>();
+
+    /**
+     * Register a variable.
+     *
+     * @param v - The variable.
+     * @returns The variable.
+     * @throws If a different variable with the same name has already been
+     * registered.
+     */
+    addVar<V extends Variable<T>>(v: V): V {
+      const other = this.vars.get(v.name);
+      if (other && other !== v) {
+        throw new Error(`Duplicate variable named ${v.name}`);
+      }
+      this.vars.set(v.name, v);
+      return v;
+    }
+
+    /**
+     * Create and register a real-valued variable.
+     *
+     * @param name - The name of the variable.
+     * @param lowerBound - The lower bound (`undefined` for no lower bound)
+     * @param upperBound - The upper bound (`undefined` for no upper bound)
+     * @returns The variable.
+     * @throws If another variable with the same name has already been
+     * registered.
+     */
+    realVar(name: string, lowerBound?: number, upperBound?: number): RealVar<T> {
+      return this.addVar(new RealVar<T>(name, lowerBound, upperBound));
+    }
+
+    /**
+     * Create and register an int-valued variable.
+     *
+     * @param name - The name of the variable.
+     * @param lowerBound - The lower bound (`undefined` for no lower bound)
+     * @param upperBound - The upper bound (`undefined` for no upper bound)
+     * @returns The variable.
+     * @throws If another variable with the same name has already been
+     * registered.
+     */
+    intVar(name: string, lowerBound?: number, upperBound?: number): IntVar<T> {
+      return this.addVar(new IntVar<T>(name, lowerBound, upperBound));
+    }
+
+    /**
+     * Create and register a boolean variable.
+     *
+     * @param name - The name of the variable.
+     * @returns The variable.
+     * @throws If another variable with the same name has already been
+     * registered.
+     */
+    boolVar(name: string): BoolVar<T> {
+      return this.addVar(new BoolVar<T>(name));
+    }
+
+    /**
+     * Add constraints to the program, in order.
+     *
+     * @param constraints - The constraints; the `undefined` ones are skipped.
+     * @throws If another constraint with the same name has already been added.
+     */
+    addConstraint(...constraints: Array<Constraint<T> | undefined>): void {
+      for (const c of constraints) {
+        if (!c) {
+          continue;
+        }
+        if (c.name && this.constraintsByName.has(c.name)) {
+          throw new Error(`Duplicate constraint named ${c.name}`);
+        }
+        if (c.name) {
+          this.constraintsByName.set(c.name, c);
+        }
+        this.constraints.push(c);
+      }
+    }
+
+    /**
+     * Get the constraints of the program.
+     *
+     * @returns The constraints, in the order they were added.
+     */
+    getConstraints(): Array<Constraint<T>> {
+      return [...this.constraints];
+    }
+
+    /**
+     * Find a constraint by name.
+     *
+     * @param name - The name of the constraint.
+     * @returns The constraint, or `undefined` if there is no such constraint.
+     */
+    getConstraint(name: string): Constraint<T> | undefined {
+      return this.constraintsByName.get(name);
+    }
+
+    /**
+     * Find a variable by name.
+     *
+     * @param name - The name of the variable.
+     * @returns The variable, either registered or mentioned by the objective or
+     * by a constraint, or `undefined` if there is no such variable.
+     */
+    getVar(name: string): Variable<T> | undefined {
+      return this.vars.get(name) ?? this.getVars().filter((v) => v.name === name)[0];
+    }
+
+    /**
+     * Get all of the variables of the program.
+     *
+     * @returns The variables mentioned by the constraints and by the objective
+     * (as in {@link lp.saturate}), followed by the other registered ones.
+     * @throws If two different variables have the same name.
+     */
+    getVars(): Array<Variable<T>> {
+      const r: Array<Variable<T>> = saturate(this.objective, this.constraints)
+        .getVarCoefficients()
+        .map(([v]) => v);
+      const mentioned = new Map<string, Variable<T>>();
+      r.forEach((v) => mentioned.set(v.name, v));
+      this.vars.forEach((v) => {
+        const other = mentioned.get(v.name);
+        if (other && other !== v) {
+          throw new Error(`Mismatching variable named ${v.name}`);
+        }
+        if (!other) {
+          r.push(v);
+        }
+      });
+      return r;
+    }
+
+    /**
+     * Get the objective to be minimized, including all of the variables of the
+     * program.
+     *
+     * @returns The objective, negated if it is maximized, with a zero
+     * coefficient for the variables it does not mention.
+     * @throws If two different variables have the same name.
+     */
+    saturate(): LinExpr<T> {
+      const r = new LinExpr<T>();
+      for (const v of this.getVars()) {
+        r.setCoefficient(v, (this.sense === 'maximize' ? -1 : 1) * (this.objective.getCoefficient(v) ?? 0));
+      }
+      return r;
+    }
+
+    /**
+     * Set the objective of the program.
+     *
+     * @param objective - The objective.
+     * @param sense - Whether the objective is minimized or maximized.
+     */
+    setObjective(objective: Operand<T>, sense: Sense = 'minimize'): void {
+      this.objective = this.add(objective);
+      this.sense = sense;
+    }
+
+    /**
+     * Add up variables and expressions.
+     *
+     * @param operands - The variables and expressions.
+     * @returns A new expression with their sum.
+     */
+    add(...operands: Array<Operand<T>>): LinExpr<T> {
+      return this.sum(operands);
+    }
+
+    /**
+     * Add up a list of variables and expressions.
+     *
+     * @param operands - The variables and expressions.
+     * @returns A new expression with their sum.
+     */
+    sum(operands: ReadonlyArray<Operand<T>>): LinExpr<T> {
+      const r = new LinExpr<T>();
+      for (const operand of operands) {
+        if (operand instanceof LinExpr) {
+          for (const [v, c] of operand.getVarCoefficients()) {
+            r.setCoefficient(v, (r.getCoefficient(v) ?? 0) + c);
+          }
+        } else {
+          r.setCoefficient(operand, (r.getCoefficient(operand) ?? 0) + 1);
+        }
+      }
+      return r;
+    }
+
+    /**
+     * Multiply a variable or an expression by a constant.
+     *
+     * @param operand - The variable or the expression.
+     * @param k - The constant.
+     * @returns A new expression with the product.
+     */
+    scale(operand: Operand<T>, k: number): LinExpr<T> {
+      const r = new LinExpr<T>();
+      for (const [v, c] of this.add(operand).getVarCoefficients()) {
+        r.setCoefficient(v, k * c);
+      }
+      return r;
+    }
+
+    /**
+     * Build an `expression <= bound` constraint (without adding it).
+     *
+     * @param name - The name of the constraint.
+     * @param operand - The variable or the expression.
+     * @param bound - The upper bound.
+     * @returns The constraint.
+     */
+    le(name: string, operand: Operand<T>, bound: number): Constraint<T> {
+      return this.constrain(new Constraint<T>(name, undefined, bound), operand);
+    }
+
+    /**
+     * Build an `expression >= bound` constraint (without adding it).
+     *
+     * @param name - The name of the constraint.
+     * @param operand - The variable or the expression.
+     * @param bound - The lower bound.
+     * @returns The constraint.
+     */
+    ge(name: string, operand: Operand<T>, bound: number): Constraint<T> {
+      return this.constrain(new Constraint<T>(name, bound), operand);
+    }
+
+    /**
+     * Build an `expression = value` constraint (without adding it).
+     *
+     * @param name - The name of the constraint.
+     * @param operand - The variable or the expression.
+     * @param value - The value of the expression.
+     * @returns The constraint.
+     */
+    eq(name: string, operand: Operand<T>, value: number): Constraint<T> {
+      return this.constrain(new Constraint<T>(name, value, value), operand);
+    }
+
+    /**
+     * Copy the terms of a variable or an expression into a constraint.
+     *
+     * @param c - The constraint.
+     * @param operand - The variable or the expression.
+     * @returns The constraint.
+     */
+    private constrain(c: Constraint<T>, operand: Operand<T>): Constraint<T> {
+      for (const [v, coefficient] of this.add(operand).getVarCoefficients()) {
+        c.setCoefficient(v, coefficient);
+      }
+      return c;
+    }
+  }
+}
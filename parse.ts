@@ -0,0 +1,296 @@
+/// <reference path="lp.ts" />
+/// <reference path="model.ts" />
+
+/**
+ * This module reads back a linear program in the LP format, so that a saved
+ * instance can be replayed or compared with the program built by a newer
+ * version of the code:
+ *
+ * ```ts
+ * const model = lp.parseLP<void>(fs.readFileSync('example.lp', 'utf8'));
+ * console.log(lp.exportAsLP(model) === text); // round trip
+ * ```
+ *
+ * Only the subset of the format written by {@link lp.exportAsLP} is supported:
+ *
+ *  - the objective (`minimize:` or `maximize:`, also `min:` and `max:`);
+ *
+ *  - the constraints, optionally named, with a lower bound (`2 <= x + y`), an
+ *    upper bound (`x + y <= 2`), both of them or neither (`=` and `>=` are
+ *    also accepted);
+ *
+ *  - the unnamed or `c[name]` constraints on a single variable, which are
+ *    read back as the bounds of the variable `name` (where ±1e30 is
+ *    infinite);
+ *
+ *  - the `bin` and `int` sections, with the boolean and integer variables
+ *    (the other variables are real-valued);
+ *
+ *  - the `//` and `/* ... *\/` comments.
+ *
+ * Unlike `lp_solve`, the variables have no bounds unless stated by a `c[name]`
+ * constraint (as in the programs built with {@link lp.Model}).
+ */
+namespace lp {
+  /**
+   * A token of an LP file, with its position.
+   */
+  interface Token {
+    kind: 'number' | 'name' | 'symbol' | 'end';
+    text: string;
+    line: number;
+    column: number;
+  }
+
+  /**
+   * A constraint or the objective, as read from the file (the variables are
+   * only created at the end, when their type is known).
+   */
+  interface Statement {
+    name: string;
+    terms: Array<[string, number]>;
+    lowerBound?: number;
+    upperBound?: number;
+    at: Token;
+  }
+
+  const NAME = /^[A-Za-z_\[\]{}\/.&#$%~'@^][A-Za-z0-9_\[\]{}\/.&#$%~'@^]*/;
+  const NUMBER = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+  const SYMBOL = /^(<=|>=|=<|=>|[<>=+\-:;,])/;
+
+  /**
+   * Build the error for a position of an LP file.
+   *
+   * @param at - The token where the error was found.
+   * @param message - The description of the error.
+   * @returns The error.
+   */
+  function syntaxError(at: Token, message: string) {
+    return new Error(`Line ${at.line}, column ${at.column}: ${message}`);
+  }
+
+  /**
+   * Split an LP file into tokens, skipping whitespace and comments.
+   *
+   * @param text - The content of the LP file.
+   * @returns The tokens, terminated by an `end` token.
+   * @throws If the text contains an unexpected character.
+   */
+  function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let column = 1;
+    const advance = (s: string) => {
+      for (const c of s) {
+        line += c === '\n' ? 1 : 0;
+        column = c === '\n' ? 1 : column + 1;
+      }
+    };
+
+    for (let rest = text; ; ) {
+      const blank = /^(\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/.exec(rest);
+      if (blank) {
+        advance(blank[0]);
+        rest = rest.slice(blank[0].length);
+        continue;
+      }
+      if (!rest) {
+        tokens.push({ kind: 'end', text: '', line, column });
+        return tokens;
+      }
+      const number = NUMBER.exec(rest);
+      const name = NAME.exec(rest);
+      const symbol = SYMBOL.exec(rest);
+      const [kind, match] = number
+        ? ['number' as const, number[0]]
+        : name
+        ? ['name' as const, name[0]]
+        : symbol
+        ? ['symbol' as const, symbol[0]]
+        : ['end' as const, ''];
+      if (!match) {
+        throw syntaxError({ kind, text: rest.charAt(0), line, column }, `Unexpected character ${rest.charAt(0)}`);
+      }
+      tokens.push({ kind, text: match, line, column });
+      advance(match);
+      rest = rest.slice(match.length);
+    }
+  }
+
+  /**
+   * Parse a linear program in LP format.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   * @param text - The content of the LP file, as written by
+   * {@link lp.exportAsLP}.
+   * @returns The linear program, with its variables registered by name.
+   * @throws If the text is not valid, with the line and the column of the
+   * error.
+   */
+  export function parseLP<T>(text: string): Model<T> {
+    const tokens = tokenize(text);
+    let i = 0;
+    const peek = (offset = 0) => tokens[Math.min(i + offset, tokens.length - 1)];
+    const next = () => tokens[Math.min((i += 1) - 1, tokens.length - 1)];
+    const isSymbol = (token: Token, ...symbols: string[]) =>
+      token.kind === 'symbol' && symbols.indexOf(token.text) >= 0;
+    const expect = (symbol: string) => {
+      const token = next();
+      if (!isSymbol(token, symbol)) {
+        throw syntaxError(token, `Expected ${symbol} instead of ${token.text || 'the end of the file'}`);
+      }
+    };
+    const isRelation = (token: Token) => isSymbol(token, '<=', '=<', '<', '>=', '=>', '>', '=');
+
+    // a number, possibly with a sign
+    const number = () => {
+      const sign = isSymbol(peek(), '+', '-') ? next().text : '+';
+      const token = next();
+      if (token.kind !== 'number') {
+        throw syntaxError(token, `Expected a number instead of ${token.text || 'the end of the file'}`);
+      }
+      return (sign === '-' ? -1 : 1) * parseFloat(token.text);
+    };
+
+    // the terms of an expression, up to a relation or the end of the statement
+    const expression = () => {
+      const terms: Array<[string, number]> = [];
+      while (!isSymbol(peek(), ';') && !isRelation(peek()) && peek().kind !== 'end') {
+        const sign = isSymbol(peek(), '+', '-') ? next().text : terms.length ? undefined : '+';
+        if (!sign) {
+          throw syntaxError(peek(), `Expected + or - instead of ${peek().text}`);
+        }
+        const coefficient = peek().kind === 'number' ? parseFloat(next().text) : 1;
+        const token = next();
+        if (token.kind !== 'name') {
+          throw syntaxError(token, `Expected a variable instead of ${token.text || 'the end of the file'}`);
+        }
+        terms.push([token.text, sign === '-' ? -coefficient : coefficient]);
+      }
+      return terms;
+    };
+
+    // a relation with the number on the left of the expression, or on its right
+    const setBound = (statement: Statement, relation: string, bound: number, left: boolean) => {
+      if (relation === '=' || relation.indexOf('<') >= 0 === left) {
+        statement.lowerBound = bound;
+      }
+      if (relation === '=' || relation.indexOf('<') >= 0 !== left) {
+        statement.upperBound = bound;
+      }
+    };
+
+    const sense = peek();
+    const senses: Record<string, Sense> = {
+      minimize: 'minimize',
+      minimise: 'minimize',
+      min: 'minimize',
+      maximize: 'maximize',
+      maximise: 'maximize',
+      max: 'maximize',
+    };
+    if (sense.kind !== 'name' || !senses[sense.text.toLowerCase()] || !isSymbol(peek(1), ':')) {
+      throw syntaxError(sense, 'Expected the objective (minimize: or maximize:)');
+    }
+    i += 2;
+    const objective = expression();
+    expect(';');
+
+    const statements: Statement[] = [];
+    const types: Record<string, 'bin' | 'int'> = {};
+    while (peek().kind !== 'end') {
+      const at = peek();
+      if (at.kind === 'name' && !isSymbol(peek(1), ':') && /^(bin|int|sec|sin|free)$/i.test(at.text)) {
+        i += 1;
+        if (!/^(bin|int)$/i.test(at.text)) {
+          throw syntaxError(at, `Unsupported section ${at.text}`);
+        }
+        while (!isSymbol(peek(), ';')) {
+          const token = next();
+          if (token.kind !== 'name') {
+            throw syntaxError(token, `Expected a variable instead of ${token.text || 'the end of the file'}`);
+          }
+          if (types[token.text]) {
+            throw syntaxError(token, `Variable ${token.text} already declared as ${types[token.text]}`);
+          }
+          types[token.text] = at.text.toLowerCase() as 'bin' | 'int';
+          if (isSymbol(peek(), ',')) {
+            i += 1;
+          }
+        }
+        i += 1;
+        continue;
+      }
+
+      const statement: Statement = { name: '', terms: [], at };
+      if (at.kind === 'name' && isSymbol(peek(1), ':')) {
+        statement.name = at.text;
+        i += 2;
+      }
+      const signed = isSymbol(peek(), '+', '-') ? 1 : 0;
+      if (peek(signed).kind === 'number' && isRelation(peek(signed + 1))) {
+        const bound = number();
+        setBound(statement, next().text, bound, true);
+      }
+      statement.terms = expression();
+      if (isRelation(peek())) {
+        const relation = next().text;
+        setBound(statement, relation, number(), false);
+      }
+      expect(';');
+      statements.push(statement);
+    }
+
+    // the unnamed and c[name] constraints are the bounds of the (non-boolean)
+    // variables
+    const bounds: Record<string, Statement> = {};
+    const constraints = statements.filter((s) => {
+      const [name, coefficient] = s.terms[0] ?? [];
+      const named = s.name === `c[${name}]` || (!s.name && !bounds[name]);
+      if (s.terms.length === 1 && coefficient === 1 && named && types[name] !== 'bin') {
+        bounds[name] = {
+          ...s,
+          lowerBound: (s.lowerBound ?? -Infinity) <= -1e30 ? undefined : s.lowerBound,
+          upperBound: (s.upperBound ?? Infinity) >= 1e30 ? undefined : s.upperBound,
+        };
+        return false;
+      }
+      return true;
+    });
+
+    const model = new Model<T>();
+    const vars = new Map<string, Variable<T>>();
+    const variable = (name: string) => {
+      let v = vars.get(name);
+      if (!v) {
+        const { lowerBound, upperBound } = bounds[name] ?? {};
+        v =
+          types[name] === 'bin'
+            ? model.boolVar(name)
+            : types[name] === 'int'
+            ? model.intVar(name, lowerBound, upperBound)
+            : model.realVar(name, lowerBound, upperBound);
+        vars.set(name, v);
+      }
+      return v;
+    };
+    const addTerms = (expr: LinExpr<T>, terms: Array<[string, number]>) =>
+      terms.forEach(([name, c]) => {
+        const v = variable(name);
+        expr.setCoefficient(v, (expr.getCoefficient(v) ?? 0) + c);
+      });
+
+    for (const s of constraints) {
+      if (s.name && model.getConstraint(s.name)) {
+        throw syntaxError(s.at, `Duplicate constraint named ${s.name}`);
+      }
+      const c = new Constraint<T>(s.name, s.lowerBound, s.upperBound);
+      addTerms(c, s.terms);
+      model.addConstraint(c);
+    }
+    addTerms(model.objective, objective);
+    model.sense = senses[sense.text.toLowerCase()];
+    [...Object.keys(bounds), ...Object.keys(types)].forEach(variable);
+    return model;
+  }
+}
@@ -0,0 +1,380 @@
+/**
+ * This module describes a rider scheduling problem as a typed object, as an
+ * alternative to the parallel arrays accepted by {@link scheduling.makeLP}.
+ *
+ * Riders and timeslices are identified by their IDs, so that the problem can
+ * be checked with {@link scheduling.validateProblem}, which reports every
+ * inconsistency along with the path of the offending field (e.g.
+ * `riders[2].type`), instead of failing on the first one.
+ */
+namespace scheduling {
+  /**
+   * A rider of a scheduling problem.
+   */
+  export interface Rider {
+    /**
+     * The unique identifier of the rider.
+     */
+    id: string;
+
+    /**
+     * The name of the rider (only for display).
+     */
+    name?: string;
+
+    /**
+     * The type of the rider (e.g. the vehicle), one of the types of the
+     * problem.
+     */
+    type: string;
+
+    /**
+     * The types of vehicle that the rider can ride, if more than one (e.g. a
+     * bike or a company scooter); by default, only the type of the rider.
+     */
+    types?: string[];
+
+    /**
+     * The guaranteed amount of time, according to the contract.
+     */
+    guaranteed: number;
+
+    /**
+     * The availability of the rider in each timeslice, by timeslice ID; the
+     * rider is unavailable in the timeslices that are not mentioned (nor
+     * covered by the intervals).
+     */
+    available?: Record<string, boolean | Availability>;
+
+    /**
+     * The availability of the rider as time intervals, e.g. `18:30-23:00`
+     * (see {@link scheduling.mapIntervals}); `available` takes precedence.
+     */
+    intervals?: Array<string | AvailabilityInterval>;
+
+    /**
+     * The zones where the rider can work; by default, all of them.
+     */
+    zones?: string[];
+  }
+
+  /**
+   * A timeslice of a scheduling problem.
+   */
+  export interface TimeSlice {
+    /**
+     * The unique identifier of the timeslice.
+     */
+    id: string;
+
+    /**
+     * The start of the timeslice, either for display (e.g. `18:30`) or as a
+     * timestamp (e.g. `2024-03-31T18:30+02:00`, see
+     * {@link scheduling.makeTimeSlices}).
+     */
+    start?: string;
+
+    /**
+     * The end of the timeslice, as a timestamp; the timestamps are needed to
+     * give the availability as intervals.
+     */
+    end?: string;
+
+    /**
+     * The duration of the timeslice.
+     */
+    duration: number;
+  }
+
+  /**
+   * The number of riders expected in a timeslice.
+   */
+  export interface Demand {
+    /**
+     * The ID of the timeslice.
+     */
+    timeSlice: string;
+
+    /**
+     * The type of the riders; if it is not specified, the riders of any type
+     * are counted.
+     */
+    type?: string;
+
+    /**
+     * The zone of the riders; if it is not specified, the riders of any zone
+     * are counted.
+     */
+    zone?: string;
+
+    /**
+     * The expected number of riders.
+     */
+    riders: number;
+  }
+
+  /**
+   * The number of shared vehicles of a type (e.g. the company scooters)
+   * available in a timeslice.
+   */
+  export interface VehiclePool {
+    /**
+     * The type of the vehicles.
+     */
+    type: string;
+
+    /**
+     * The ID of the timeslice; if it is not specified, the vehicles are
+     * available in every timeslice (unless a record for the timeslice exists).
+     */
+    timeSlice?: string;
+
+    /**
+     * The number of vehicles.
+     */
+    vehicles: number;
+  }
+
+  /**
+   * A rider scheduling problem.
+   *
+   * @remarks
+   *
+   * The riders and the timeslices are handled in the order in which they are
+   * listed (e.g. the per-rider {@link scheduling.Options} refer to the riders
+   * by their position); the timeslices without demand records expect no
+   * riders.
+   */
+  export interface SchedulingProblem {
+    /**
+     * The types of the riders (e.g. `bike` and `scooter`).
+     */
+    types: string[];
+
+    /**
+     * The delivery zones (or hubs) of the city, if it is split; see
+     * {@link scheduling.Zones}.
+     */
+    zones?: string[];
+
+    /**
+     * The time zone of the intervals of availability; by default, the time
+     * zone of the environment.
+     */
+    timeZone?: string;
+
+    /**
+     * The riders.
+     */
+    riders: Rider[];
+
+    /**
+     * The consecutive timeslices of the planning horizon.
+     */
+    timeSlices: TimeSlice[];
+
+    /**
+     * The expected number of riders in the timeslices.
+     */
+    demand: Demand[];
+
+    /**
+     * The shared vehicles, if any; the types without pool records are not
+     * limited (e.g. the vehicles owned by the riders).
+     */
+    pool?: VehiclePool[];
+
+    /**
+     * The minimum duration of an assignable shift.
+     */
+    minDuration: number;
+  }
+
+  /**
+   * An inconsistency found in a scheduling problem.
+   */
+  export interface ProblemError {
+    /**
+     * The path of the offending field, e.g. `riders[2].type`.
+     */
+    path: string;
+
+    /**
+     * The description of the inconsistency.
+     */
+    message: string;
+  }
+
+  /**
+   * Check whether a name can be part of the names of the variables and of the
+   * constraints of the linear program (e.g. `a[rider][zone][t1..t2]`), i.e. it
+   * only contains the characters allowed by the LP format, except for the
+   * brackets.
+   *
+   * @param name - The name, e.g. of a zone.
+   * @returns Whether the name is valid.
+   */
+  export function isLPName(name: string): boolean {
+    return /^[A-Za-z0-9_{}\/.&#$%~'@^]+$/.test(name);
+  }
+
+  /**
+   * Check that a scheduling problem is consistent.
+   *
+   * @param problem - The scheduling problem.
+   * @returns All of the inconsistencies found (none if the problem is valid).
+   */
+  export function validateProblem(problem: SchedulingProblem): ProblemError[] {
+    const errors: ProblemError[] = [];
+    const report = (path: string, message: string) => errors.push({ path, message });
+    const isDuration = (n: number) => typeof n === 'number' && isFinite(n) && 0 <= n;
+
+    const types: Record<string, boolean> = {};
+    problem.types.forEach((type, i) => {
+      if (types[type]) {
+        report(`types[${i}]`, `Duplicate type ${type}`);
+      }
+      if (!isLPName(type)) {
+        report(`types[${i}]`, `Invalid type name ${type} (only letters, digits and _{}/.&#$%~'@^ are allowed)`);
+      }
+      types[type] = true;
+    });
+
+    const zones: Record<string, boolean> = {};
+    (problem.zones ?? []).forEach((zone, i) => {
+      if (zones[zone]) {
+        report(`zones[${i}]`, `Duplicate zone ${zone}`);
+      }
+      if (!isLPName(zone)) {
+        report(`zones[${i}]`, `Invalid zone name ${zone} (only letters, digits and _{}/.&#$%~'@^ are allowed)`);
+      }
+      zones[zone] = true;
+    });
+
+    const timeSlices: Record<string, boolean> = {};
+    problem.timeSlices.forEach((slice, i) => {
+      if (!slice.id) {
+        report(`timeSlices[${i}].id`, 'Missing timeslice ID');
+      } else if (timeSlices[slice.id]) {
+        report(`timeSlices[${i}].id`, `Duplicate timeslice ID ${slice.id}`);
+      }
+      timeSlices[slice.id] = true;
+      if (!isDuration(slice.duration)) {
+        report(`timeSlices[${i}].duration`, `Invalid duration ${slice.duration}`);
+      }
+    });
+
+    const riders: Record<string, boolean> = {};
+    const numRidersOfType: Record<string, number> = {};
+    const numRidersInZone: Record<string, number> = {};
+    problem.riders.forEach((rider, i) => {
+      if (!rider.id) {
+        report(`riders[${i}].id`, 'Missing rider ID');
+      } else if (riders[rider.id]) {
+        report(`riders[${i}].id`, `Duplicate rider ID ${rider.id}`);
+      }
+      riders[rider.id] = true;
+      if (!types[rider.type]) {
+        report(`riders[${i}].type`, `Unknown type ${rider.type}`);
+      }
+      const riderTypes = rider.types ?? [rider.type];
+      (rider.types ?? []).forEach((type, j) => {
+        if (!types[type]) {
+          report(`riders[${i}].types[${j}]`, `Unknown type ${type}`);
+        }
+      });
+      for (const type of riderTypes) {
+        numRidersOfType[type] = (numRidersOfType[type] ?? 0) + 1;
+      }
+      (rider.zones ?? problem.zones ?? []).forEach((zone, j) => {
+        if (!zones[zone]) {
+          report(`riders[${i}].zones[${j}]`, `Unknown zone ${zone}`);
+        }
+        for (const key of [zone, ...riderTypes.map((type) => `${zone} (${type})`)]) {
+          numRidersInZone[key] = (numRidersInZone[key] ?? 0) + 1;
+        }
+      });
+      if (!isDuration(rider.guaranteed)) {
+        report(`riders[${i}].guaranteed`, `Invalid guaranteed time ${rider.guaranteed}`);
+      }
+      if (rider.intervals && !hasTimestamps(problem.timeSlices)) {
+        report(`riders[${i}].intervals`, 'The timeslices have no start and end timestamps');
+      }
+      (rider.intervals ?? []).forEach((interval, j) => {
+        const { interval: text, level } = typeof interval === 'string' ? { interval, level: 'preferred' } : interval;
+        if (!parseInterval(text)) {
+          report(`riders[${i}].intervals[${j}]`, `Invalid interval ${text}`);
+        } else if (level !== 'preferred' && level !== 'possible' && level !== 'unavailable') {
+          report(`riders[${i}].intervals[${j}].level`, `Invalid availability ${level}`);
+        }
+      });
+      const available = rider.available ?? {};
+      for (const id of Object.keys(available)) {
+        const a = available[id];
+        if (!timeSlices[id]) {
+          report(`riders[${i}].available.${id}`, `Unknown timeslice ${id}`);
+        } else if (typeof a !== 'boolean' && a !== 'preferred' && a !== 'possible' && a !== 'unavailable') {
+          report(`riders[${i}].available.${id}`, `Invalid availability ${a}`);
+        }
+      }
+    });
+
+    const demand: Record<string, boolean> = {};
+    problem.demand.forEach((d, i) => {
+      if (!timeSlices[d.timeSlice]) {
+        report(`demand[${i}].timeSlice`, `Unknown timeslice ${d.timeSlice}`);
+      }
+      if (d.type !== undefined && !types[d.type]) {
+        report(`demand[${i}].type`, `Unknown type ${d.type}`);
+      }
+      if (d.zone !== undefined && !zones[d.zone]) {
+        report(`demand[${i}].zone`, `Unknown zone ${d.zone}`);
+      }
+      const type = d.type === undefined ? '' : ` (${d.type})`;
+      const key = d.zone === undefined ? `${d.timeSlice}${type}` : `${d.timeSlice} in ${d.zone}${type}`;
+      if (demand[key]) {
+        report(`demand[${i}]`, `Duplicate demand for timeslice ${key}`);
+      }
+      demand[key] = true;
+      const available =
+        d.zone !== undefined
+          ? numRidersInZone[`${d.zone}${type}`] ?? 0
+          : d.type === undefined
+          ? problem.riders.length
+          : numRidersOfType[d.type] ?? 0;
+      if (typeof d.riders !== 'number' || d.riders % 1 !== 0 || d.riders < 0) {
+        report(`demand[${i}].riders`, `Invalid number of riders ${d.riders}`);
+      } else if (d.riders > available) {
+        report(`demand[${i}].riders`, `${d.riders} riders expected, but only ${available} exist`);
+      }
+    });
+
+    const pool: Record<string, boolean> = {};
+    (problem.pool ?? []).forEach((p, i) => {
+      if (!types[p.type]) {
+        report(`pool[${i}].type`, `Unknown type ${p.type}`);
+      }
+      if (p.timeSlice !== undefined && !timeSlices[p.timeSlice]) {
+        report(`pool[${i}].timeSlice`, `Unknown timeslice ${p.timeSlice}`);
+      }
+      const key = p.timeSlice === undefined ? p.type : `${p.type} in ${p.timeSlice}`;
+      if (pool[key]) {
+        report(`pool[${i}]`, `Duplicate pool of ${key}`);
+      }
+      pool[key] = true;
+      if (typeof p.vehicles !== 'number' || p.vehicles % 1 !== 0 || p.vehicles < 0) {
+        report(`pool[${i}].vehicles`, `Invalid number of vehicles ${p.vehicles}`);
+      }
+    });
+
+    if (problem.timeZone !== undefined && !isTimeZone(problem.timeZone)) {
+      report('timeZone', `Invalid time zone ${problem.timeZone}`);
+    }
+
+    if (!isDuration(problem.minDuration)) {
+      report('minDuration', `Invalid minimum duration ${problem.minDuration}`);
+    }
+
+    return errors;
+  }
+}
@@ -0,0 +1,183 @@
+/// <reference path="problem.ts" />
+/// <reference path="scheduling.ts" />
+
+/**
+ * This module presents a schedule as tables (the shifts of each rider and the
+ * coverage of each timeslice, also per zone if the city is split into zones),
+ * in the formats used by the command-line tool and by the spreadsheet adapter.
+ */
+namespace report {
+  /**
+   * The output formats of the reports.
+   */
+  export type ReportFormat = 'text' | 'csv' | 'json';
+
+  /**
+   * A table of a report.
+   */
+  export interface Table {
+    title: string;
+    headers: string[];
+    rows: Array<Array<string | number>>;
+  }
+
+  /**
+   * Round a number for display, removing the rounding errors of the solver
+   * (e.g. 7705.999999999997 is 7706).
+   *
+   * @param x - The number.
+   * @returns The number, rounded to 6 decimal digits.
+   */
+  export function round(x: number): number {
+    return Math.round(x * 1e6) / 1e6;
+  }
+
+  /**
+   * Build the tables that describe a schedule.
+   *
+   * @param problem - The scheduling problem.
+   * @param schedule - The solution of the problem.
+   * @returns The shifts of the riders, the coverage of the timeslices and (if
+   * the city is split into zones) the coverage of each zone; none of them if
+   * no solution was found.
+   */
+  export function makeTables(problem: scheduling.SchedulingProblem, schedule: scheduling.Schedule): Table[] {
+    const { riders, timeSlices, types } = problem;
+    const { shifts: riderShifts, coverage: sliceCoverage, shortage, shortageOfType, zoneCoverage } = schedule;
+    if (!riderShifts || !sliceCoverage || !shortage || !shortageOfType) {
+      return [];
+    }
+    const shifts: Table = {
+      title: 'Shifts',
+      headers: ['rider', 'name', 'type', 'from', 'to', 'duration', ...(zoneCoverage ? ['zone'] : [])],
+      rows: [],
+    };
+    riderShifts.forEach((s, rider) => {
+      const { id, name, type } = riders[rider];
+      for (const { start, end, duration, zone, type: vehicle, startTime, endTime } of s) {
+        const from = startTime ?? timeSlices[start].id;
+        const to = endTime ?? timeSlices[end].id;
+        const row = [id, name ?? '', vehicle ?? type, from, to, round(duration)];
+        shifts.rows.push(zoneCoverage ? [...row, zone ?? ''] : row);
+      }
+    });
+
+    const coverage: Table = {
+      title: 'Coverage',
+      headers: [
+        'timeslice',
+        'assigned',
+        'expected',
+        'shortage',
+        ...types.reduce(
+          (h, type) => [...h, `assigned ${type}`, `expected ${type}`, `shortage ${type}`],
+          [] as string[],
+        ),
+      ],
+      rows: sliceCoverage.map((c, t) => [
+        timeSlices[t].id,
+        c.assigned,
+        c.expected,
+        shortage[t],
+        ...types.reduce(
+          (r, type) => [...r, c.assignedOfType[type], c.expectedOfType[type], shortageOfType[type][t]],
+          [] as number[],
+        ),
+      ]),
+    };
+    if (!zoneCoverage) {
+      return [shifts, coverage];
+    }
+
+    const byZone: Table = {
+      title: 'Coverage by zone',
+      headers: [
+        'zone',
+        'timeslice',
+        'assigned',
+        'expected',
+        'shortage',
+        ...types.reduce((h, type) => [...h, `assigned ${type}`, `expected ${type}`], [] as string[]),
+      ],
+      rows: [],
+    };
+    for (const zone of Object.keys(zoneCoverage)) {
+      zoneCoverage[zone].forEach((c, t) =>
+        byZone.rows.push([
+          zone,
+          timeSlices[t].id,
+          c.assigned,
+          c.expected,
+          Math.max(0, c.expected - c.assigned),
+          ...types.reduce((r, type) => [...r, c.assignedOfType[type], c.expectedOfType[type]], [] as number[]),
+        ]),
+      );
+    }
+    return [shifts, coverage, byZone];
+  }
+
+  /**
+   * Format the report of a schedule.
+   *
+   * @param problem - The scheduling problem.
+   * @param schedule - The solution of the problem.
+   * @param format - The output format.
+   * @returns The report, as a string.
+   */
+  export function formatReport(
+    problem: scheduling.SchedulingProblem,
+    schedule: scheduling.Schedule,
+    format: ReportFormat = 'text',
+  ): string {
+    const tables = makeTables(problem, schedule);
+    if (format === 'json') {
+      const toObjects = ({ headers, rows }: Table) =>
+        rows.map((row) => {
+          const r: Record<string, string | number> = {};
+          headers.forEach((h, i) => (r[h] = row[i]));
+          return r;
+        });
+      const [shifts, coverage, zoneCoverage] = tables.map(toObjects);
+      return `${JSON.stringify(
+        {
+          status: schedule.status,
+          objective: schedule.objective === undefined ? undefined : round(schedule.objective),
+          shifts,
+          coverage,
+          zoneCoverage,
+        },
+        null,
+        2,
+      )}\n`;
+    } else if (format === 'csv') {
+      if (!tables.length) {
+        return `status,${schedule.status}\n`;
+      }
+      const escape = (cell: string | number) =>
+        /[",\n]/.test(`${cell}`) ? `"${`${cell}`.replace(/"/g, '""')}"` : `${cell}`;
+      return tables
+        .map(({ headers, rows }) => [headers, ...rows].map((row) => `${row.map(escape).join(',')}\n`).join(''))
+        .join('\n');
+    }
+
+    let r = `Status: ${schedule.status}\n`;
+    if (schedule.objective !== undefined) {
+      r += `Objective: ${round(schedule.objective)}\n`;
+    }
+    for (const { title, headers, rows } of tables) {
+      const cells = [headers, ...rows].map((row) => row.map((cell) => `${cell}`));
+      const widths = headers.map((_, i) => Math.max(...cells.map((row) => row[i].length)));
+      r += `\n${title}\n`;
+      r += cells
+        .map(
+          (row) =>
+            `${row
+              .map((cell, i) => cell.padEnd(widths[i]))
+              .join('  ')
+              .replace(/\s+$/, '')}\n`,
+        )
+        .join('');
+    }
+    return r;
+  }
+}
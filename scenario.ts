@@ -0,0 +1,450 @@
+/// <reference path="problem.ts" />
+/// <reference path="scheduling.ts" />
+
+/**
+ * This module answers "what if" questions about a scheduling problem, e.g. how
+ * many extra hours would be paid to have one more scooter rider at 20-21,
+ * without changing the problem by hand:
+ *
+ * ```ts
+ * const { scenarios } = scheduling.compareScenarios(
+ *   [{ name: 'scooter at 20', expected: { 20: 1 }, expectedOfType: { scooter: { 20: 1 } } }],
+ *   problem,
+ * );
+ * console.log(scenarios[0].hoursDelta);
+ * ```
+ *
+ * Each scenario is a set of named deltas on the arrays of the problem (as in
+ * the positional arguments of {@link scheduling.makeLP}): the expected number
+ * of riders (also per type) and the guaranteed time are added to, while the
+ * availability is replaced. The scenarios are solved independently, and
+ * compared with the baseline, i.e. the problem without deltas.
+ *
+ * The hours and the cost are comparable across scenarios, while the objective
+ * is only comparable when its weights do not depend on the problem (see
+ * {@link scheduling.Options.objective}): by default, they grow with the number
+ * of ranges, which changes with the availability (or with the demand, when
+ * `pruneRanges` is set), hence the difference of the objective is left out for
+ * such scenarios.
+ */
+namespace scheduling {
+  /**
+   * A change of the availability of a rider in a timeslice.
+   */
+  export interface AvailabilityChange {
+    /**
+     * The index of the rider.
+     */
+    rider: number;
+
+    /**
+     * The index of the timeslice.
+     */
+    timeSlice: number;
+
+    /**
+     * The new availability.
+     */
+    available: boolean | Availability;
+  }
+
+  /**
+   * A named set of changes to a scheduling problem.
+   */
+  export interface Scenario {
+    /**
+     * The name of the scenario.
+     */
+    name: string;
+
+    /**
+     * For some timeslices (by index), the riders added to the expected ones
+     * (negative to remove them).
+     */
+    expected?: Record<number, number>;
+
+    /**
+     * For some types and timeslices (by index), the riders added to the
+     * expected ones of the type (which does not change the expected riders of
+     * any type).
+     */
+    expectedOfType?: Record<string, Record<number, number>>;
+
+    /**
+     * The changes of the availability of the riders.
+     */
+    available?: AvailabilityChange[];
+
+    /**
+     * For some riders (by index), the time added to the guaranteed one.
+     */
+    guaranteed?: Record<number, number>;
+  }
+
+  /**
+   * The differences between a schedule and the baseline; each of them is
+   * `undefined` if either of them has no solution.
+   */
+  export interface ScheduleDelta {
+    /**
+     * The difference of the objective (also `undefined` if the weights of the
+     * objective differ, see {@link scheduling.compareScenarios}).
+     */
+    objectiveDelta?: number;
+
+    /**
+     * The difference of the total counted (i.e. paid) time.
+     */
+    hoursDelta?: number;
+
+    /**
+     * The difference of the total cost (only if the rates of the riders have
+     * been specified).
+     */
+    costDelta?: number;
+  }
+
+  /**
+   * The outcome of a scenario.
+   */
+  export interface ScenarioOutcome extends ScheduleDelta {
+    /**
+     * The name of the scenario.
+     */
+    name: string;
+
+    /**
+     * The schedule of the scenario.
+     */
+    schedule: Schedule;
+  }
+
+  /**
+   * The outcome of some scenarios, with the baseline they are compared to.
+   */
+  export interface ScenarioComparison {
+    /**
+     * The schedule of the problem without changes.
+     */
+    baseline: Schedule;
+
+    /**
+     * The outcome of each scenario, in order.
+     */
+    scenarios: ScenarioOutcome[];
+  }
+
+  /**
+   * The marginal cost of one more rider in a timeslice.
+   */
+  export interface MarginalCost extends ScheduleDelta {
+    /**
+     * The index of the timeslice.
+     */
+    timeSlice: number;
+
+    /**
+     * The type of the additional rider, if any.
+     */
+    type?: string;
+  }
+
+  /**
+   * The arguments of {@link scheduling.makeLP}, followed by the solver.
+   */
+  type SolverArgs =
+    | [SchedulingProblem, Options?, lp.Solver?]
+    | [
+        number[],
+        number[],
+        Record<string, number[]>,
+        string[],
+        Array<Array<boolean | Availability>>,
+        number[],
+        number,
+        Options?,
+        lp.Solver?,
+      ];
+
+  /**
+   * Split the arguments of a scenario function.
+   *
+   * @param args - Either a problem or its arrays, the options and the solver.
+   * @returns The positional arguments of {@link scheduling.makeLP} and the
+   * solver.
+   */
+  function fromSolverArgs(args: SolverArgs): [ArrayArgs, lp.Solver?] {
+    if (Array.isArray(args[0])) {
+      return [args.slice(0, 8) as ArrayArgs, args[8] as lp.Solver | undefined];
+    }
+    const [problem, options, solver] = args as [SchedulingProblem, Options?, lp.Solver?];
+    return [fromProblem(problem, options), solver];
+  }
+
+  /**
+   * Apply the changes of a scenario to the arguments of
+   * {@link scheduling.makeLP}, without modifying them.
+   *
+   * @param args - The positional arguments of {@link scheduling.makeLP}.
+   * @param scenario - The scenario.
+   * @returns The changed arguments.
+   * @throws If a change refers to a missing timeslice, rider or type, or makes
+   * an expected number of riders or a guaranteed time negative.
+   */
+  function applyScenario(args: ArrayArgs, scenario: Scenario): ArrayArgs {
+    const [duration, expected, expectedOfType, riderType, available, guaranteed, minDuration, options] = args;
+    const check = (index: number, length: number, what: string) => {
+      if (!(index % 1 === 0 && 0 <= index && index < length)) {
+        throw new Error(`Scenario ${scenario.name}: no ${what} ${index}`);
+      }
+    };
+    const add = (values: number[], deltas: Record<number, number> = {}, what: string) => {
+      const r = [...values];
+      for (const key of Object.keys(deltas)) {
+        check(Number(key), values.length, what);
+        r[Number(key)] += deltas[Number(key)];
+      }
+      return r;
+    };
+    const nonNegative = (values: number[], what: string) => {
+      values.forEach((value, i) => {
+        if (value < 0) {
+          throw new Error(`Scenario ${scenario.name}: ${what} ${i} is negative (${value})`);
+        }
+      });
+      return values;
+    };
+
+    const changedOfType = { ...expectedOfType };
+    for (const type of Object.keys(scenario.expectedOfType ?? {})) {
+      if (!expectedOfType[type]) {
+        throw new Error(`Scenario ${scenario.name}: no type ${type}`);
+      }
+      changedOfType[type] = nonNegative(
+        add(expectedOfType[type], scenario.expectedOfType![type], 'timeslice'),
+        `the number of ${type} riders expected in timeslice`,
+      );
+    }
+    const changedAvailable = available.map((a) => [...a]);
+    for (const { rider, timeSlice, available: a } of scenario.available ?? []) {
+      check(timeSlice, available.length, 'timeslice');
+      check(rider, guaranteed.length, 'rider');
+      changedAvailable[timeSlice][rider] = a;
+    }
+
+    const changedExpected = nonNegative(
+      add(expected, scenario.expected, 'timeslice'),
+      'the number of riders expected in timeslice',
+    );
+    changedExpected.forEach((count, t) => {
+      if (count > guaranteed.length) {
+        throw new Error(
+          `Scenario ${scenario.name}: ${count} riders expected in timeslice ${t}, but there are ${guaranteed.length}`,
+        );
+      }
+    });
+
+    return [
+      duration,
+      changedExpected,
+      changedOfType,
+      riderType,
+      changedAvailable,
+      nonNegative(add(guaranteed, scenario.guaranteed, 'rider'), 'the guaranteed time of rider'),
+      minDuration,
+      options,
+    ];
+  }
+
+  /**
+   * Compare a schedule with the baseline.
+   *
+   * @param baseline - The schedule of the problem without changes.
+   * @param schedule - The schedule of a scenario.
+   * @param comparableObjective - Whether the objective of the scenario has
+   * the same weights as the baseline one.
+   * @returns The differences.
+   */
+  function compareSchedules(baseline: Schedule, schedule: Schedule, comparableObjective = true): ScheduleDelta {
+    const solved = (s: Schedule) => s.objective !== undefined;
+    const hours = (s: Schedule) => s.countedTime!.reduce((sum, x) => sum + x, 0);
+    const cost = (s: Schedule) => s.cost?.reduce((sum, c) => sum + c.total, 0);
+    if (!solved(baseline) || !solved(schedule)) {
+      return {};
+    }
+    return {
+      objectiveDelta: comparableObjective ? schedule.objective! - baseline.objective! : undefined,
+      hoursDelta: hours(schedule) - hours(baseline),
+      costDelta: baseline.cost ? cost(schedule)! - cost(baseline)! : undefined,
+    };
+  }
+
+  /**
+   * Solve some scenarios of a scheduling problem and compare them with the
+   * problem without changes.
+   *
+   * @param scenarios - The scenarios.
+   * @param problem - The scheduling problem.
+   * @param options - The optional settings of the problem.
+   * @param solver - The solver (by default, the one of the platform).
+   * @returns The schedule of the problem and the outcome of each scenario.
+   * @throws If the problem is not valid, or a scenario refers to a missing
+   * timeslice, rider or type.
+   */
+  export function compareScenarios(
+    scenarios: Scenario[],
+    problem: SchedulingProblem,
+    options?: Options,
+    solver?: lp.Solver,
+  ): ScenarioComparison;
+
+  /**
+   * Solve some scenarios of a scheduling problem and compare them with the
+   * problem without changes.
+   *
+   * @param scenarios - The scenarios.
+   * @param duration - The array of durations of the input timeslices.
+   * @param expected - The array of expected number of riders in each timeslice.
+   * @param expectedOfType - The array of expected number of riders in each
+   * timeslice, for each type.
+   * @param riderType - The type of each rider.
+   * @param available - For each timeslice, whether (or how much) the rider is
+   * available.
+   * @param guaranteed - For each rider, the guaranteed amount of time.
+   * @param minDuration - The minimum duration of each shift.
+   * @param options - The optional settings of the problem.
+   * @param solver - The solver (by default, the one of the platform).
+   * @returns The schedule of the problem and the outcome of each scenario.
+   * @throws If a scenario refers to a missing timeslice, rider or type.
+   */
+  export function compareScenarios(
+    scenarios: Scenario[],
+    duration: number[],
+    expected: number[],
+    expectedOfType: Record<string, number[]>,
+    riderType: string[],
+    available: Array<Array<boolean | Availability>>,
+    guaranteed: number[],
+    minDuration: number,
+    options?: Options,
+    solver?: lp.Solver,
+  ): ScenarioComparison;
+
+  export function compareScenarios(scenarios: Scenario[], ...args: SolverArgs): ScenarioComparison {
+    return solveScenarios(scenarios, ...fromSolverArgs(args));
+  }
+
+  /**
+   * Whether the default weights of the objective, which grow with the number
+   * of ranges, are the same in a scenario as in the baseline.
+   *
+   * @param scenario - The scenario.
+   * @param options - The optional settings of the problem.
+   * @returns False if the weights are the default ones, and the scenario
+   * changes the availability (or the demand, when `pruneRanges` is set).
+   */
+  function hasSameWeights(scenario: Scenario, options: Options = {}): boolean {
+    const changesDemand = !!(scenario.expected || scenario.expectedOfType);
+    return !!options.objective || !(scenario.available?.length || (options.pruneRanges && changesDemand));
+  }
+
+  /**
+   * Solve some scenarios and the problem without changes.
+   *
+   * @param scenarios - The scenarios.
+   * @param arrays - The positional arguments of {@link scheduling.makeLP}.
+   * @param solver - The solver (by default, the one of the platform).
+   * @returns The schedule of the problem and the outcome of each scenario.
+   * @throws If a scenario refers to a missing timeslice, rider or type.
+   */
+  function solveScenarios(scenarios: Scenario[], arrays: ArrayArgs, solver?: lp.Solver): ScenarioComparison {
+    // the scenarios are checked before solving any of them
+    const changed = scenarios.map((scenario) => applyScenario(arrays, scenario));
+    const baseline = makeLP(...arrays).solve(solver);
+    return {
+      baseline,
+      scenarios: changed.map((a, i) => {
+        const schedule = makeLP(...a).solve(solver);
+        return {
+          name: scenarios[i].name,
+          schedule,
+          ...compareSchedules(baseline, schedule, hasSameWeights(scenarios[i], arrays[7])),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Compute the marginal cost of one more rider in each timeslice, of any
+   * type and of each type (which is also one more rider of any type), by
+   * solving a scenario for each of them.
+   *
+   * @param problem - The scheduling problem.
+   * @param options - The optional settings of the problem.
+   * @param solver - The solver (by default, the one of the platform).
+   * @returns For each timeslice, the marginal cost of a rider of any type,
+   * followed by the one of a rider of each type.
+   * @throws If the problem is not valid.
+   */
+  export function marginalCosts(problem: SchedulingProblem, options?: Options, solver?: lp.Solver): MarginalCost[];
+
+  /**
+   * Compute the marginal cost of one more rider in each timeslice, of any
+   * type and of each type (which is also one more rider of any type), by
+   * solving a scenario for each of them.
+   *
+   * @param duration - The array of durations of the input timeslices.
+   * @param expected - The array of expected number of riders in each timeslice.
+   * @param expectedOfType - The array of expected number of riders in each
+   * timeslice, for each type.
+   * @param riderType - The type of each rider.
+   * @param available - For each timeslice, whether (or how much) the rider is
+   * available.
+   * @param guaranteed - For each rider, the guaranteed amount of time.
+   * @param minDuration - The minimum duration of each shift.
+   * @param options - The optional settings of the problem.
+   * @param solver - The solver (by default, the one of the platform).
+   * @returns For each timeslice, the marginal cost of a rider of any type,
+   * followed by the one of a rider of each type.
+   */
+  export function marginalCosts(
+    duration: number[],
+    expected: number[],
+    expectedOfType: Record<string, number[]>,
+    riderType: string[],
+    available: Array<Array<boolean | Availability>>,
+    guaranteed: number[],
+    minDuration: number,
+    options?: Options,
+    solver?: lp.Solver,
+  ): MarginalCost[];
+
+  export function marginalCosts(...args: SolverArgs): MarginalCost[] {
+    const [arrays, solver] = fromSolverArgs(args);
+    const [, expected, expectedOfType, , , guaranteed] = arrays;
+    const costs: MarginalCost[] = [];
+    const scenarios: Scenario[] = [];
+    expected.forEach((count, t) => {
+      // when all of the riders are already expected, one more cannot be covered
+      if (count >= guaranteed.length) {
+        costs.push({ timeSlice: t }, ...Object.keys(expectedOfType).map((type) => ({ timeSlice: t, type })));
+        return;
+      }
+      costs.push({ timeSlice: t });
+      scenarios.push({ name: `${t}`, expected: { [t]: 1 } });
+      for (const type of Object.keys(expectedOfType)) {
+        costs.push({ timeSlice: t, type });
+        scenarios.push({ name: `${type}@${t}`, expected: { [t]: 1 }, expectedOfType: { [type]: { [t]: 1 } } });
+      }
+    });
+    const comparison = solveScenarios(scenarios, arrays, solver);
+    let i = 0;
+    return costs.map((c) => {
+      if (expected[c.timeSlice] >= guaranteed.length) {
+        return c;
+      }
+      const { objectiveDelta, hoursDelta, costDelta } = comparison.scenarios[i++];
+      return { ...c, objectiveDelta, hoursDelta, costDelta };
+    });
+  }
+}
@@ -3,8 +3,10 @@
  *
  * The scheduling problem is defined based on several data:
  *
- *  - for each timeslice, its duration (in minutes) and the number of expected
- *    riders for each timeslice (both in general and per-type, i.e. vehicle)
+ *  - for each timeslice, its duration (in hours, like the times generated by
+ *    {@link scheduling.makeTimeSlices}, or in any other unit used by all of
+ *    the durations) and the number of expected riders for each timeslice
+ *    (both in general and per-type, i.e. vehicle)
  *
  *  - for each rider, his/her "type" (bicycle/scooter), the availability
  *    (expressed as yes/no for each timeslice) and number of guaranteed hours
@@ -43,7 +45,9 @@
  *  - riderType[rider] ∈ { 'scooter', 'bike' } is the type of `rider`
  *
  *  - available[t][rider] ∈ { 0, 1 } is 1 if `rider` is available for the
- *    timeslice `t`, otherwise it is 0
+ *    timeslice `t`, otherwise it is 0; the availability can also be given as a
+ *    level (`preferred`, `possible` or `unavailable`), in which case the rider
+ *    is available unless the level is `unavailable`
  *
  *  - guaranteed[rider] ∈ ℝ is the duration that is guaranteed to be paid to the
  *    rider
@@ -51,6 +55,43 @@
  *  - minDuration ∈ ℝ is the minimum duration of a range `t1..t2`; the system
  *    will not assign shorter ranges.
  *
+ * Optionally, the contractual limits of each rider can be specified:
+ *
+ *  - maxTime[rider] ∈ ℝ is the maximum duration that can be counted for the
+ *    rider
+ *
+ *  - maxShifts[rider] ∈ ℕ is the maximum number of ranges `t1..t2` that can be
+ *    assigned to the rider
+ *
+ *  - maxShiftDuration[rider] ∈ ℝ is the maximum duration of a range `t1..t2`
+ *    assigned to the rider; the system will not assign longer ranges
+ *
+ *  - minRest[rider] ∈ ℝ is the minimum duration between two ranges assigned to
+ *    the rider
+ *
+ * The timeslices can also be grouped into consecutive days (and the days into
+ * weeks of 7 days), in which case `guaranteed[rider]` and `maxTime[rider]` are
+ * counted per week and some more limits can be specified:
+ *
+ *  - day[t] is the day of the timeslice `t`; a range `t1..t2` belongs to the
+ *    day `day[t1]`, and it can only continue into the following day if the day
+ *    allows overnight shifts
+ *
+ *  - gap[t] ∈ ℝ is the duration between the end of the timeslice `t - 1` and
+ *    the beginning of the timeslice `t` (e.g. the night hours between two days
+ *    that have no timeslices); it is 0 within a day
+ *
+ *  - maxDailyTime[rider] ∈ ℝ is the maximum duration of the ranges of a day
+ *
+ *  - maxWorkingDays[rider] ∈ ℕ is the maximum number of days with at least one
+ *    range assigned to the rider
+ *
+ *  - maxConsecutiveDays[rider] ∈ ℕ is the maximum number of consecutive days
+ *    with at least one range assigned to the rider
+ *
+ *  - minOvernightRest[rider] ∈ ℝ is the minimum duration between two ranges
+ *    assigned to the rider that belong to different days
+ *
  * There are several sanity assumptions on the input values; note that they are
  * not needed as constraint in the LP instance (if they are not respected, the
  * problem is likely meaningless).
@@ -75,9 +116,13 @@
  *    `rider`; regardless of assignments, at least the guaranteed time must be
  *    counted, hence the variable has a lower bound of `guaranteed[rider]`:
  * ```
- * ∀ rider. guaranteed[rider] <= time[rider]
+ * ∀ rider. guaranteed[rider] <= time[rider] <= maxTime[rider]
  * ```
  *
+ *  - when the timeslices are grouped into days, the `time[rider][week]`
+ *    variables represent the same, but for each week; the following
+ *    constraints then only consider the ranges that belong to the week
+ *
  *  - the `timeCounted` constraint states that for each rider, count the total
  *    duration of the time ranges that have been assigned:
  * ```
@@ -85,9 +130,47 @@
  * ```
  *
  *  - the `disjointAllocations` constraint states that each rider can only be
- *    assigned to one of the overlapping time ranges:
+ *    assigned to one of the overlapping time ranges; each range also occupies
+ *    the following timeslices `rest(t2)`, that start less than
+ *    `minRest[rider]` after its end, so that no other range can start there:
  * ```
- * ∀ rider, t. ∑_{t ∈ t1..t2} assigned[rider][t1..t2] <= available[t][rider]
+ * ∀ rider, t. ∑_{t ∈ t1..t2 ∪ rest(t2)} assigned[rider][t1..t2] <= available[t][rider]
+ * ```
+ *
+ *  - the `shifts` constraint states that each rider is assigned at most
+ *    `maxShifts[rider]` ranges:
+ * ```
+ * ∀ rider. ∑_{t1..t2} assigned[rider][t1..t2] <= maxShifts[rider]
+ * ```
+ *
+ *  - the `overnightRest` constraint states that a range cannot end in `e` if
+ *    another range that belongs to a later day starts in `u` less than
+ *    `minOvernightRest[rider]` after `e` (`rest(e, u)`):
+ * ```
+ * ∀ rider, e, u. rest(e, u) < minOvernightRest[rider] ⇒
+ *   ∑_{t2 = e, day[t1] < day[u]} assigned[rider][t1..t2] + ∑_{t1 = u} assigned[rider][t1..t2] <= 1
+ * ```
+ *
+ *  - the `dailyTime` constraint states that the ranges of each day last at most
+ *    `maxDailyTime[rider]`:
+ * ```
+ * ∀ rider, day. ∑_{day[t1] = day} (∑_{t ∈ t1..t2} duration[t]) * assigned[rider][t1..t2] <= maxDailyTime[rider]
+ * ```
+ *
+ *  - the `works[rider][day]` boolean variable represents whether any range of
+ *    the day has been assigned to `rider`, as stated by the `worksOn`
+ *    constraint (where `numTimeSlices[day]` bounds the number of ranges of a
+ *    day):
+ * ```
+ * ∀ rider, day. ∑_{day[t1] = day} assigned[rider][t1..t2] <= numTimeSlices[day] * works[rider][day]
+ * ```
+ *
+ *  - the `workingDays` and `consecutiveDays` constraints limit the number of
+ *    working days, overall and within each window of `maxConsecutiveDays + 1`
+ *    days:
+ * ```
+ * ∀ rider. ∑_{day} works[rider][day] <= maxWorkingDays[rider]
+ * ∀ rider, day. ∑_{day <= d <= day + maxConsecutiveDays[rider]} works[rider][d] <= maxConsecutiveDays[rider]
  * ```
  *
  *  - the `enough` constraint states that each timeslice has been assigned
@@ -102,6 +185,20 @@
  * ∀ t. expectedOfType[type][t] <= ∑_{riderType[rider] = type, t ∈ t1..t2} a[rider][t1..t2]
  * ```
  *
+ * When the coverage is soft (i.e. a `shortagePenalty` is given), the `enough`
+ * and `enough[type]` constraints can be violated, at a cost: the
+ * `short[t]` and `short[type][t]` variables count the missing riders
+ *
+ * ```
+ * ∀ t. expected[t] <= short[t] + ∑_{rider, t ∈ t1..t2} a[rider][t1..t2]
+ * ∀ t. expectedOfType[type][t] <= short[type][t] + ∑_{riderType[rider] = type, t ∈ t1..t2} a[rider][t1..t2]
+ * ```
+ *
+ * and each of them is added to the objective with the coefficient
+ * `shortagePenalty * k * duration[t]`, i.e. a missing rider costs
+ * `shortagePenalty` times as much as the counted time that would be needed to
+ * cover the timeslice.
+ *
  * The objective function handles multiple components:
  *
  *  - it tries to avoid overallocations
@@ -116,14 +213,748 @@
  *
  * with a `k` coefficient that is bigger than the total amount of possible assignments.
  *
+ * When the cost of the riders is known, i.e. for each rider a `baseRate[rider]`
+ * (for the guaranteed time), an `overtimeRate[rider]` (for the time beyond the
+ * guaranteed one) and for each timeslice a `rateMultiplier[t]` (e.g. for night
+ * or holiday hours), the objective minimizes the labour cost instead:
+ *
+ * ```
+ * k * (∑_{rider} overtimeRate[rider] * time[rider] + ∑_{rider, t1..t2} premium[rider][t1..t2] * a[rider][t1..t2])
+ *   + (∑_{rider, t ∈ t1..t2} a[rider][t1..t2])
+ * ```
+ *
+ * where the `premium` of a range is the additional cost of its timeslices:
+ *
+ * ```
+ * premium[rider][t1..t2] = ∑_{t ∈ t1..t2} baseRate[rider] * (rateMultiplier[t] - 1) * duration[t]
+ * ```
+ *
+ * The guaranteed time is paid regardless of the assignments, hence its cost
+ * `(baseRate[rider] - overtimeRate[rider]) * guaranteed[rider]` is a constant
+ * that is not included in the objective. In this case, `shortagePenalty` is
+ * the cost of a missing rider for a unit of time.
+ *
+ * Finally, the timeslices that are only `possible` for a rider (as opposed to
+ * `preferred`) are discouraged by adding to the coefficient of each range
+ * `t1..t2` in the objective
+ *
+ * ```
+ * k * ∑_{t ∈ t1..t2, available[t][rider] = possible} possiblePenalty * duration[t]
+ * ```
+ *
+ * i.e. assigning a `possible` timeslice costs `possiblePenalty` times as much
+ * as counting its time (or, with the rates, `possiblePenalty` per unit of
+ * time).
+ *
+ * The extra time of the riders can also be balanced, i.e. the time worked
+ * beyond a `target[rider]` (by default `guaranteed[rider]`, per week): the
+ * `maxExtra` and `minExtra` variables bound the extra time of every rider, as
+ * stated by the `fairMax` and `fairMin` constraints
+ *
+ * ```
+ * ∀ rider. ∑ (∑_{t ∈ t1..t2} duration[t]) * assigned[rider][t1..t2] - maxExtra <= target[rider]
+ * ∀ rider. target[rider] <= ∑ (∑_{t ∈ t1..t2} duration[t]) * assigned[rider][t1..t2] - minExtra
+ * ```
+ *
+ * and the fairness measure is either `maxExtra` (with `maxExtra >= 0`) or the
+ * spread `maxExtra - minExtra` (where both of them can be negative, down to
+ * minus the largest target over the horizon). With a `weight`, the measure is
+ * added to the objective with the coefficient `weight * k`; otherwise, the
+ * problem is solved lexicographically: once the optimum `z` of the objective is
+ * known, the measure is minimized subject to the `optimal` constraint
+ * `objective <= z`.
+ *
+ * When a previous schedule is revised, `previous[rider]` are the ranges that
+ * were assigned to the rider (i.e. the runs of consecutive assigned timeslices
+ * within a day) and `locked[rider][t]` states whether the assignment of the
+ * timeslice `t` cannot change. The locked timeslices that were not assigned are
+ * handled as unavailable, while the `keep` constraint preserves the previous
+ * ranges that include a locked timeslice:
+ *
+ * ```
+ * ∀ rider, t1..t2 ∈ previous[rider]. (∃ t ∈ t1..t2. locked[rider][t]) ⇒ 1 <= assigned[rider][t1..t2]
+ * ```
+ *
+ * The `changed[rider]` boolean variable represents whether the ranges of
+ * `rider` are different from the previous ones, as stated by the `changes`
+ * constraint (where `numTimeSlices + |previous[rider]|` bounds the left-hand
+ * side):
+ *
+ * ```
+ * ∀ rider. ∑_{t1..t2 ∉ previous[rider]} assigned[rider][t1..t2] - ∑_{t1..t2 ∈ previous[rider]} assigned[rider][t1..t2]
+ *   <= (numTimeSlices + |previous[rider]|) * changed[rider] - |previous[rider]|
+ * ```
+ *
+ * and the number of changed riders `∑_{rider} changed[rider]` is minimized
+ * before the objective (and the fairness measure), in the same lexicographic
+ * way.
+ *
+ * When the city is split into delivery zones (or hubs), each rider can only
+ * work in his/her eligible zones (`eligible[rider]`, all of them by default)
+ * and the range variables also carry the zone, i.e. `a[rider][zone][t1..t2]`
+ * (hence the names of the zones must be valid in the LP format, see
+ * `isLPName`); the constraints above count the ranges of all zones, while the `enoughInZone` constraints state that each zone has been
+ * assigned enough riders (also per type), possibly with the `shortInZone`
+ * variables when the coverage is soft:
+ * ```
+ * ∀ zone, t. expectedInZone[zone][t] <= ∑_{rider, t ∈ t1..t2} a[rider][zone][t1..t2]
+ * ∀ zone, type, t. expectedOfTypeInZone[zone][type][t] <= ∑_{riderType[rider] = type, t ∈ t1..t2} a[rider][zone][t1..t2]
+ * ```
+ *
+ * The `travel` constraint states that a range in `zone` cannot start in `u`
+ * if a range in another zone ends in `e` less than `travelTime` before
+ * (`travel(e, u)`):
+ * ```
+ * ∀ rider, zone, e, u. travel(e, u) < travelTime ⇒
+ *   ∑_{t2 = e, z ≠ zone} a[rider][z][t1..t2] + ∑_{t1 = u} a[rider][zone][t1..t2] <= 1
+ * ```
+ *
+ * With a `switchPenalty`, the `inZone[rider][zone][day]` boolean variable
+ * represents whether any range of the day in `zone` has been assigned to
+ * `rider` (as stated by the `zoneOf` constraint, in the same way as `worksOn`),
+ * and the `switches[rider][day] >= 0` variable counts the zones of the day
+ * beyond the first one, as stated by the `zoneSwitches` constraint:
+ * ```
+ * ∀ rider, day. ∑_{zone} inZone[rider][zone][day] - switches[rider][day] <= 1
+ * ```
+ *
+ * each of them being added to the objective with the coefficient
+ * `switchPenalty * k`.
+ *
+ * When some riders can ride more than one type of vehicle (`vehicles[rider]`,
+ * by default only `riderType[rider]`), the range variables also carry the
+ * type, i.e. `a[rider][type][t1..t2]` (after the zone, if any, and with the
+ * same restrictions on the names, see `isLPName`), and the
+ * constraints above count each range with the type of its vehicle rather than
+ * the one of the rider (e.g. `enough[type]`). The vehicles of a shared pool
+ * are limited by the `pool` constraint:
+ * ```
+ * ∀ type, t. ∑_{rider, t ∈ t1..t2} a[rider][type][t1..t2] <= pool[type][t]
+ * ```
+ *
+ * The number of ranges grows with the square of the timeslices of a day (e.g.
+ * a week of 15-minute timeslices), so it is reduced by `maxShiftDuration` and,
+ * with `pruneRanges`, by skipping the ranges whose first or last timeslice
+ * could be dropped (without demand, premium or change of day) and still leave
+ * a range of at least `minDuration`. Otherwise, the `flow` formulation has a
+ * boolean variable `x[rider][t]` for each timeslice worked by the rider and
+ * `s[rider][t]` for each start of a shift (only where a shift of `minDuration`
+ * fits), which replace the ranges above (`count(a)` becomes `count(s)`):
+ * ```
+ * ∀ rider, t. x[rider][t] - x[rider][t - 1] - s[rider][t] <= 0
+ * ∀ rider, t. ∑_{u ∈ W(t)} x[rider][u] - |W(t)| * s[rider][t] >= 0
+ * ∀ rider, t. ∑_{u ∈ W(t)} s[rider][u] <= 1
+ * ∀ rider, t. ∑_{u ∈ M(t)} x[rider][u] - ∑_{u ∈ M(t), u > t} s[rider][u] <= |M(t)| - 1
+ * ```
+ *
+ * where `W(t)` are the timeslices from `t` until the duration reaches
+ * `minDuration` and `M(t)` those until it exceeds `maxShiftDuration[rider]`
+ * (`x[rider][t - 1]` is omitted if the shift cannot continue into `t`). With a
+ * rest, `e[rider][t]` is the end of a shift, and no shift can start during the
+ * rest (`R(t)`) after it:
+ * ```
+ * ∀ rider, t. x[rider][t] - x[rider][t + 1] - e[rider][t] <= 0
+ * ∀ rider, t. x[rider][t] + s[rider][t + 1] - e[rider][t] <= 1
+ * ∀ rider, t. ∑_{u ∈ R(t)} s[rider][u] + |R(t)| * e[rider][t] <= |R(t)|
+ * ```
+ *
+ * The other constraints count `x[rider][t]` instead of the ranges that include
+ * `t` (and `s[rider][t]` for `maxShifts` and `worksOn`). The flow formulation
+ * does not support zones, vehicles and re-planning.
+ *
+ * All of the above are weighted sums of named terms (see `ObjectiveTerm`):
+ * `hours` is `∑ time[rider]`, `shifts` is `count(a)`, `overtime` is the cost
+ * with the rates (including the premiums, and, in `objectiveTerms`, without
+ * the cost of the guaranteed time), `preferences` the `possible` time,
+ * `shortfall` the missing riders times `duration[t]`, `switches` and
+ * `fairness` the measures above. With `objective.weights`, the objective is
+ * their weighted sum instead of the default one (without `k`); with
+ * `objective.priority`, the first term is the objective and each of the
+ * others is minimized in turn subject to the `optimal` constraints of the
+ * previous ones, in the same lexicographic way as the fairness measure.
+ *
+ * Alternative schedules are enumerated by solving the program again with a
+ * `different` cut for each schedule `S` found so far (i.e. the set of its
+ * ranges), which requires at least `minDifference` ranges to change:
+ * ```
+ * ∑_{a ∉ S} a - ∑_{a ∈ S} a >= minDifference - |S|
+ * ```
+ * and, with a `gap`, the `withinGap` constraint
+ * `objective <= z + gap * |z|`, where `z` is the optimum.
+ *
  */
 namespace scheduling {
+  /**
+   * The level of availability of a rider for a timeslice.
+   *
+   * @remarks
+   *
+   * A `possible` timeslice is only assigned if needed, e.g. to cover the
+   * expected number of riders; `true` is the same as `preferred` and `false`
+   * the same as `unavailable`.
+   */
+  export type Availability = 'preferred' | 'possible' | 'unavailable';
+
   interface AuxData {
     rider: number;
     t1: number;
     t2: number;
+    zone?: string;
+    type: string;
   }
 
+  /**
+   * The optional settings of a scheduling problem.
+   */
+  export interface Options {
+    /**
+     * The penalty of each missing rider in a timeslice, relative to the cost of
+     * counting the time of the timeslice for a rider.
+     *
+     * @remarks
+     *
+     * If it is not specified, the expected number of riders is a hard
+     * constraint and no schedule is found if it cannot be satisfied; otherwise
+     * the best possible schedule is returned, along with the shortage.
+     */
+    shortagePenalty?: number;
+
+    /**
+     * For each rider, the maximum amount of time that can be counted.
+     */
+    maxTime?: number[];
+
+    /**
+     * For each rider, the maximum number of shifts that can be assigned.
+     */
+    maxShifts?: number[];
+
+    /**
+     * For each rider, the maximum duration of an assignable shift.
+     */
+    maxShiftDuration?: number[];
+
+    /**
+     * For each rider, the minimum amount of time between the end of a shift and
+     * the beginning of the next one.
+     */
+    minRest?: number[];
+
+    /**
+     * The days of the planning horizon, in order; when they are specified,
+     * their timeslices must add up to all of the timeslices, and the
+     * guaranteed and maximum time of the riders are counted per week.
+     */
+    days?: Day[];
+
+    /**
+     * For each rider, the maximum amount of time of the shifts of a day.
+     */
+    maxDailyTime?: number[];
+
+    /**
+     * For each rider, the maximum number of days with at least one shift.
+     */
+    maxWorkingDays?: number[];
+
+    /**
+     * For each rider, the maximum number of consecutive days with at least one
+     * shift.
+     */
+    maxConsecutiveDays?: number[];
+
+    /**
+     * For each rider, the minimum amount of time between the end of a shift and
+     * the beginning of a shift of a later day.
+     */
+    minOvernightRest?: number[];
+
+    /**
+     * For each rider, the rates; when they are specified, the labour cost is
+     * minimized (instead of the counted time).
+     */
+    rates?: Rates[];
+
+    /**
+     * For each timeslice, the multiplier of the base rate (e.g. for night or
+     * holiday hours); it is 1 by default.
+     */
+    rateMultiplier?: number[];
+
+    /**
+     * The penalty of assigning a `possible` (rather than `preferred`)
+     * timeslice to a rider, relative to the cost of counting its time; it is 1
+     * by default.
+     */
+    possiblePenalty?: number;
+
+    /**
+     * How the extra time is balanced across the riders; by default, it is not.
+     */
+    fairness?: Fairness;
+
+    /**
+     * The schedule that is being revised, if any; by default, the problem is
+     * solved from scratch.
+     */
+    replan?: Replan;
+
+    /**
+     * The delivery zones (or hubs) of the city, with their own demand; by
+     * default, the whole city is a single zone.
+     */
+    zones?: Zones;
+
+    /**
+     * The vehicles that the riders can ride, if some of them can ride more than
+     * one type; by default, each rider rides a vehicle of his/her type.
+     */
+    vehicles?: Vehicles;
+
+    /**
+     * How the shifts are modelled: either with a variable for each possible
+     * range (`ranges`, the default) or with a variable for each timeslice
+     * worked by each rider and for the start of each shift (`flow`), which
+     * scales to finer timeslices but does not support zones, vehicles and
+     * re-planning.
+     */
+    formulation?: 'ranges' | 'flow';
+
+    /**
+     * Whether to skip the ranges that are dominated by a shorter one, i.e. that
+     * start or end with a timeslice without demand (and without a premium) that
+     * can be dropped; it is false by default, because the longer ranges may
+     * still give a fairer schedule.
+     */
+    pruneRanges?: boolean;
+
+    /**
+     * The terms of the objective, with either their weights or their priority;
+     * by default, the counted time (or its cost, with the rates) outweighs all
+     * of the other terms (see {@link scheduling.ObjectiveConfig}).
+     */
+    objective?: ObjectiveConfig;
+  }
+
+  /**
+   * A named term of the objective:
+   *
+   *  - `hours`, the counted time of all of the riders;
+   *
+   *  - `shifts`, the number of shifts;
+   *
+   *  - `overtime`, the cost of the counted time beyond the guaranteed one
+   *    with the overtime rates, plus the premiums; without rates it is the
+   *    same as `hours`, minus the guaranteed time;
+   *
+   *  - `preferences`, the time assigned in `possible` timeslices;
+   *
+   *  - `shortfall`, the missing riders (when the coverage is soft) times the
+   *    duration of their timeslices;
+   *
+   *  - `switches`, the zones where a rider works in a day beyond the first
+   *    one;
+   *
+   *  - `fairness`, the fairness measure (see {@link scheduling.Fairness}).
+   */
+  export type ObjectiveTerm = 'hours' | 'shifts' | 'overtime' | 'preferences' | 'shortfall' | 'switches' | 'fairness';
+
+  /**
+   * The configuration of the objective, either as a weighted sum of its terms
+   * or as a lexicographic order of them.
+   *
+   * @remarks
+   *
+   * When the objective is configured, `possiblePenalty`, `switchPenalty`,
+   * `shortagePenalty` and the weight of the fairness measure no longer weigh
+   * their terms (although `shortagePenalty` still makes the coverage soft, as
+   * does mentioning the `shortfall` term).
+   */
+  export interface ObjectiveConfig {
+    /**
+     * The weight of each term of the objective, which is their weighted sum
+     * (the missing terms are ignored).
+     */
+    weights?: Partial<Record<ObjectiveTerm, number>>;
+
+    /**
+     * The terms in decreasing order of priority: each of them is minimized
+     * among the schedules that are optimal for the previous ones (the missing
+     * terms are ignored).
+     */
+    priority?: ObjectiveTerm[];
+  }
+
+  /**
+   * The delivery zones (or hubs) of the city; a shift is assigned to a rider
+   * in one of the zones where the rider is eligible to work.
+   *
+   * @remarks
+   *
+   * The zones are the ones mentioned in any of the fields; with a
+   * {@link scheduling.SchedulingProblem}, the zones, their demand and the
+   * eligible riders are taken from the problem.
+   */
+  export interface Zones {
+    /**
+     * For each zone, for each timeslice, the number of riders expected in the
+     * zone (none by default).
+     */
+    expected?: Record<string, number[]>;
+
+    /**
+     * For each zone, for each type, for each timeslice, the number of riders
+     * of that type expected in the zone (none by default).
+     */
+    expectedOfType?: Record<string, Record<string, number[]>>;
+
+    /**
+     * For each rider, the zones where the rider can work; by default, all of
+     * them.
+     */
+    eligible?: string[][];
+
+    /**
+     * The penalty of each additional zone where a rider works in a day,
+     * relative to the cost of counting a unit of time (none by default).
+     */
+    switchPenalty?: number;
+
+    /**
+     * The minimum amount of time between two shifts of a rider in different
+     * zones, e.g. to travel from one to the other (none by default).
+     */
+    travelTime?: number;
+  }
+
+  /**
+   * The rule that balances the extra time (i.e. the worked time beyond a
+   * target) across the riders.
+   */
+  export interface Fairness {
+    /**
+     * Whether to minimize the largest extra time of a rider (`max`) or the
+     * difference between the largest and the smallest one (`spread`).
+     */
+    measure: 'max' | 'spread';
+
+    /**
+     * For each rider, the time (per week) beyond which the worked time is
+     * extra; by default, the guaranteed time.
+     */
+    target?: number[];
+
+    /**
+     * The weight of the measure, relative to the cost of counting the same
+     * amount of time; if it is not specified, the measure is only minimized
+     * among the optimal schedules (i.e. lexicographically).
+     */
+    weight?: number;
+  }
+
+  /**
+   * The types of vehicle that can be assigned to the shifts of the riders.
+   *
+   * @remarks
+   *
+   * The type of each shift is chosen among the eligible ones and the expected
+   * number of riders of a type counts the shifts with a vehicle of that type.
+   */
+  export interface Vehicles {
+    /**
+     * For each rider, the types of vehicle that the rider can ride; by
+     * default, only the type of the rider.
+     */
+    eligible?: string[][];
+
+    /**
+     * For each type of shared vehicle (e.g. the company scooters), for each
+     * timeslice, the number of vehicles that are available; the other types
+     * are not limited (e.g. the vehicles owned by the riders).
+     */
+    pool?: Record<string, number[]>;
+  }
+
+  /**
+   * The revision of a published schedule, e.g. after some riders cancelled
+   * their availability or the expected number of riders changed.
+   *
+   * @remarks
+   *
+   * The number of riders whose shifts change is minimized first, and the
+   * usual objective is only minimized among the schedules with the fewest
+   * changes; note that the exported programs only include the usual objective
+   * (and the locks).
+   */
+  export interface Replan {
+    /**
+     * For each rider, for each timeslice, whether the rider was assigned to it
+     * (e.g. the `assignment` of the previous {@link scheduling.Schedule}).
+     */
+    previous: boolean[][];
+
+    /**
+     * For each rider, for each timeslice, whether its assignment cannot change
+     * (e.g. because it is in the past or the shift has been confirmed); the
+     * previous shifts that include a locked timeslice are kept as they are.
+     */
+    locked?: boolean[][];
+  }
+
+  /**
+   * A shift, i.e. a range of consecutive timeslices assigned to a rider.
+   */
+  export interface Shift {
+    /**
+     * The first timeslice of the shift.
+     */
+    start: number;
+
+    /**
+     * The last timeslice of the shift (included).
+     */
+    end: number;
+
+    /**
+     * The total duration of the timeslices of the shift.
+     */
+    duration: number;
+
+    /**
+     * The zone of the shift (only when the city is split into zones).
+     */
+    zone?: string;
+
+    /**
+     * The type of vehicle of the shift (only when the riders can ride more
+     * than one type, see {@link scheduling.Vehicles}).
+     */
+    type?: string;
+
+    /**
+     * The start of the shift, as a timestamp (only when the timeslices of the
+     * {@link scheduling.SchedulingProblem} have timestamps).
+     */
+    startTime?: string;
+
+    /**
+     * The end of the shift, as a timestamp (only when the timeslices of the
+     * {@link scheduling.SchedulingProblem} have timestamps).
+     */
+    endTime?: string;
+  }
+
+  /**
+   * The number of riders assigned to a timeslice, compared to the expected one.
+   */
+  export interface Coverage {
+    /**
+     * The number of riders assigned to the timeslice.
+     */
+    assigned: number;
+
+    /**
+     * The number of riders expected in the timeslice.
+     */
+    expected: number;
+
+    /**
+     * For each type, the number of riders of that type assigned to the
+     * timeslice.
+     */
+    assignedOfType: Record<string, number>;
+
+    /**
+     * For each type, the number of riders of that type expected in the
+     * timeslice.
+     */
+    expectedOfType: Record<string, number>;
+  }
+
+  /**
+   * The differences between the previous shifts of a rider and the new ones.
+   */
+  export interface ShiftChanges {
+    /**
+     * The shifts that have been assigned to the rider.
+     */
+    added: Shift[];
+
+    /**
+     * The shifts that are no longer assigned to the rider.
+     */
+    removed: Shift[];
+  }
+
+  /**
+   * The hourly (or, more precisely, per unit of time) rates of a rider.
+   */
+  export interface Rates {
+    /**
+     * The cost of a unit of the guaranteed time.
+     */
+    baseRate: number;
+
+    /**
+     * The cost of a unit of time beyond the guaranteed time (by default, the
+     * same as the base rate).
+     */
+    overtimeRate?: number;
+  }
+
+  /**
+   * The cost of a rider, broken down into its components.
+   */
+  export interface CostBreakdown {
+    /**
+     * The cost of the guaranteed time, which is paid regardless of the
+     * assignments.
+     */
+    guaranteed: number;
+
+    /**
+     * The cost of the time beyond the guaranteed one.
+     */
+    overtime: number;
+
+    /**
+     * The additional cost of the timeslices with a rate multiplier.
+     */
+    premium: number;
+
+    /**
+     * The total cost.
+     */
+    total: number;
+  }
+
+  /**
+   * A day of the planning horizon.
+   */
+  export interface Day {
+    /**
+     * The number of (consecutive) timeslices of the day.
+     */
+    numTimeSlices: number;
+
+    /**
+     * The amount of time between the end of the last timeslice of the day and
+     * the beginning of the first timeslice of the next day (0 by default).
+     */
+    gap?: number;
+
+    /**
+     * Whether the shifts that start in this day can continue into the next one
+     * (e.g. night shifts across midnight); this is only possible if there is no
+     * gap between the two days.
+     */
+    overnightShifts?: boolean;
+  }
+
+  /**
+   * The solution of a scheduling problem.
+   */
+  export interface Schedule {
+    /**
+     * The outcome of the solver; when no solution was found, the other fields
+     * are `undefined`.
+     */
+    status: lp.Status;
+
+    /**
+     * The value of the objective function (only if a solution was found).
+     */
+    objective?: number;
+
+    /**
+     * For each rider, for each timeslice, whether the rider is assigned to it.
+     */
+    assignment?: boolean[][];
+
+    /**
+     * For each rider, the assigned shifts, in chronological order.
+     */
+    shifts?: Shift[][];
+
+    /**
+     * For each rider, the amount of time that is counted (i.e. paid), which is
+     * at least the guaranteed time.
+     */
+    countedTime?: number[];
+
+    /**
+     * For each rider, the amount of time of the assigned shifts.
+     */
+    workedTime?: number[];
+
+    /**
+     * For each rider, the amount of guaranteed time that is paid but not
+     * worked.
+     */
+    unworkedGuaranteed?: number[];
+
+    /**
+     * For each timeslice, the number of assigned riders compared to the
+     * expected one.
+     */
+    coverage?: Coverage[];
+
+    /**
+     * For each timeslice, how many riders are missing to reach the expected
+     * number of riders.
+     */
+    shortage?: number[];
+
+    /**
+     * For each type, for each timeslice, how many riders of that type are
+     * missing to reach the expected number of riders of the type.
+     */
+    shortageOfType?: Record<string, number[]>;
+
+    /**
+     * For each zone, for each timeslice, the number of riders assigned to the
+     * zone compared to the expected one (only when the city is split into
+     * zones).
+     */
+    zoneCoverage?: Record<string, Coverage[]>;
+
+    /**
+     * For each rider, the breakdown of the cost (only if the rates of the
+     * riders have been specified).
+     */
+    cost?: CostBreakdown[];
+
+    /**
+     * For each rider, the amount of time assigned in timeslices that were not
+     * `preferred` by the rider.
+     */
+    nonPreferredTime?: number[];
+
+    /**
+     * For each rider, the changes with respect to the previous schedule (only
+     * when revising a schedule).
+     */
+    changes?: ShiftChanges[];
+
+    /**
+     * The value of each term of the objective (only if a solution was found).
+     */
+    objectiveTerms?: Record<ObjectiveTerm, number>;
+  }
+
+  /**
+   * The terms of the objective, in the order their variables are added to it.
+   */
+  const OBJECTIVE_TERMS: ObjectiveTerm[] = [
+    'shifts',
+    'hours',
+    'overtime',
+    'preferences',
+    'switches',
+    'fairness',
+    'shortfall',
+  ];
+
   function assert(condition: any, msg?: string): asserts condition {
     if (!condition) {
       throw new Error(msg);
@@ -138,6 +969,14 @@ namespace scheduling {
     }
   }
 
+  function range(n: number) {
+    const r: number[] = [];
+    for (let i = 0; i < n; i += 1) {
+      r.push(i);
+    }
+    return r;
+  }
+
   function makeRecord<V>(keys: string[], f: (key: string) => V) {
     const r: Record<string, V> = {};
     for (const key of keys) {
@@ -146,6 +985,219 @@ namespace scheduling {
     return r;
   }
 
+  /**
+   * The size of a linear program.
+   */
+  export interface ModelSize {
+    /**
+     * The number of variables.
+     */
+    variables: number;
+
+    /**
+     * The number of constraints.
+     */
+    constraints: number;
+
+    /**
+     * The number of non-zero coefficients of the constraints.
+     */
+    nonzeros: number;
+  }
+
+  /**
+   * Which alternative schedules are enumerated, in increasing order of the
+   * objective; at least one of `count` and `gap` is required.
+   */
+  export interface Alternatives {
+    /**
+     * The maximum number of schedules, including the optimal one.
+     */
+    count?: number;
+
+    /**
+     * The maximum relative distance of the objective from the optimum, e.g.
+     * 0.05 for the schedules within 5% of it; without a `count`, all of them
+     * are enumerated, which can take long.
+     */
+    gap?: number;
+
+    /**
+     * The minimum number of shifts by which each schedule differs from each of
+     * the previous ones, i.e. the shifts in either of them but not in both (a
+     * moved shift counts twice); it is 1 by default.
+     */
+    minDifference?: number;
+  }
+
+  /**
+   * A linear program that solves a scheduling problem.
+   */
+  export interface SchedulingLP {
+    /**
+     * Solve the linear program.
+     *
+     * @param solver - The solver used to find the solution (by default, the
+     * most appropriate one for the environment, see {@link lp.defaultSolver}).
+     * @returns The schedule, along with the outcome of the solver.
+     */
+    solve(solver?: lp.Solver): Schedule;
+
+    /**
+     * Enumerate the best distinct schedules, by solving the linear program
+     * again with a no-good cut that excludes each schedule found (and those
+     * that differ from it by fewer than `minDifference` shifts).
+     *
+     * @param alternatives - How many schedules are enumerated, and how much
+     * they differ.
+     * @param solver - The solver used to find the solutions (by default, the
+     * most appropriate one for the environment, see {@link lp.defaultSolver}).
+     * @returns The schedules in increasing order of the objective, starting
+     * with the optimal one (empty if there is no solution at all).
+     * @throws If the settings are not valid, or the formulation is `flow`.
+     */
+    alternatives(alternatives: Alternatives, solver?: lp.Solver): Schedule[];
+
+    /**
+     * Export the linear program in LP format (see {@link lp.exportAsLP}).
+     *
+     * @returns The linear program, as a string.
+     */
+    export(): string;
+
+    /**
+     * Export the linear program in MPS format (see {@link lp.exportAsMPS}).
+     *
+     * @param format - The variant of the MPS format.
+     * @returns The linear program, as a string.
+     */
+    exportAsMPS(format?: lp.MPSFormat): string;
+
+    /**
+     * Export the linear program in CPLEX LP format (see
+     * {@link lp.exportAsCPLEXLP}).
+     *
+     * @returns The linear program, as a string.
+     */
+    exportAsCPLEXLP(): string;
+
+    /**
+     * Import the solution of the exported program computed by an external
+     * solver (see {@link lp.importSolution}).
+     *
+     * @param text - The content of the solution file.
+     * @returns The schedule, along with the outcome of the solver.
+     */
+    importSolution(text: string): Schedule;
+
+    /**
+     * Measure the size of the linear program.
+     *
+     * @returns The number of variables, constraints and non-zero coefficients.
+     */
+    size(): ModelSize;
+  }
+
+  /**
+   * The positional arguments of {@link scheduling.makeLP}.
+   */
+  export type ArrayArgs = [
+    number[],
+    number[],
+    Record<string, number[]>,
+    string[],
+    Array<Array<boolean | Availability>>,
+    number[],
+    number,
+    Options?,
+  ];
+
+  /**
+   * Convert a scheduling problem into the positional arguments of
+   * {@link scheduling.makeLP}.
+   *
+   * @param problem - The scheduling problem.
+   * @param options - The optional settings of the problem.
+   * @returns The arguments.
+   * @throws If the problem is not valid, listing all of its inconsistencies.
+   */
+  export function fromProblem(problem: SchedulingProblem, options?: Options): ArrayArgs {
+    const errors = validateProblem(problem);
+    if (errors.length) {
+      throw new Error(`Invalid scheduling problem:\n${errors.map((e) => `${e.path}: ${e.message}`).join('\n')}`);
+    }
+
+    const { types, riders, timeSlices } = problem;
+    const index: Record<string, number> = {};
+    timeSlices.forEach((slice, t) => (index[slice.id] = t));
+    const expected = timeSlices.map(() => 0);
+    const expectedOfType = makeRecord(types, () => timeSlices.map(() => 0));
+    const zoneNames = problem.zones ?? [];
+    const expectedInZone = makeRecord(zoneNames, () => timeSlices.map(() => 0));
+    const expectedOfTypeInZone = makeRecord(zoneNames, () => makeRecord(types, () => timeSlices.map(() => 0)));
+    for (const d of problem.demand) {
+      const t = index[d.timeSlice];
+      if (d.zone !== undefined) {
+        (d.type === undefined ? expectedInZone[d.zone] : expectedOfTypeInZone[d.zone][d.type])[t] = d.riders;
+      } else {
+        (d.type === undefined ? expected : expectedOfType[d.type])[t] = d.riders;
+      }
+    }
+    if (problem.zones) {
+      options = {
+        ...options,
+        zones: {
+          ...options?.zones,
+          expected: expectedInZone,
+          expectedOfType: expectedOfTypeInZone,
+          eligible: riders.map((rider) => rider.zones ?? zoneNames),
+        },
+      };
+    }
+
+    if (problem.pool || riders.some((rider) => rider.types)) {
+      const pool: Record<string, number[]> = {};
+      const entries = problem.pool ?? [];
+      for (const p of entries.filter((e) => e.timeSlice === undefined)) {
+        pool[p.type] = timeSlices.map(() => p.vehicles);
+      }
+      for (const p of entries.filter((e) => e.timeSlice !== undefined)) {
+        pool[p.type] = pool[p.type] ?? timeSlices.map(() => Infinity);
+        pool[p.type][index[p.timeSlice!]] = p.vehicles;
+      }
+      options = { ...options, vehicles: { eligible: riders.map((rider) => rider.types ?? [rider.type]), pool } };
+    }
+
+    // the intervals are mapped onto the timeslices, unless overridden
+    const available = riders.map(
+      (rider): Record<string, boolean | Availability> => ({
+        ...(rider.intervals ? mapIntervals(timeSlices, rider.intervals, problem.timeZone) : {}),
+        ...rider.available,
+      }),
+    );
+
+    return [
+      timeSlices.map((slice) => slice.duration),
+      expected,
+      expectedOfType,
+      riders.map((rider) => rider.type),
+      timeSlices.map((slice) => available.map((a) => a[slice.id] ?? false)),
+      riders.map((rider) => rider.guaranteed),
+      problem.minDuration,
+      options,
+    ];
+  }
+
+  /**
+   * Construct a linear program that solves the given scheduling problem.
+   *
+   * @param problem - The scheduling problem.
+   * @param options - The optional settings of the problem.
+   * @returns The linear program.
+   * @throws If the problem is not valid (see {@link scheduling.validateProblem}).
+   */
+  export function makeLP(problem: SchedulingProblem, options?: Options): SchedulingLP;
+
   /**
    * Construct a linear program that solves the given scheduling problem.
    *
@@ -154,20 +1206,76 @@ namespace scheduling {
    * @param expectedOfType - The array of expected number of riders in each
    * timeslice, for each type.
    * @param riderType - The type of each rider.
-   * @param available - For each timeslice, whether the rider is available.
+   * @param available - For each timeslice, whether (or how much) the rider is
+   * available.
    * @param guaranteed - For each rider, the guaranteed amount of time.
    * @param minDuration - The minimum duration of an assignable
-   * @returns The solution, or `undefined` if no solution was found.
+   * @param options - The optional settings of the problem.
+   * @returns The linear program.
    */
   export function makeLP(
     duration: number[],
     expected: number[],
     expectedOfType: Record<string, number[]>,
     riderType: string[],
-    available: boolean[][],
+    available: Array<Array<boolean | Availability>>,
+    guaranteed: number[],
+    minDuration: number,
+    options?: Options,
+  ): SchedulingLP;
+
+  export function makeLP(...args: [SchedulingProblem, Options?] | ArrayArgs): SchedulingLP {
+    if (Array.isArray(args[0])) {
+      return buildLP(...(args as ArrayArgs));
+    }
+    const [problem, options] = args as [SchedulingProblem, Options?];
+    return withTimestamps(buildLP(...fromProblem(problem, options)), problem.timeSlices);
+  }
+
+  /**
+   * Add the start and end timestamps to the shifts of the schedules of a
+   * linear program, if the timeslices have them.
+   *
+   * @param linProgram - The linear program.
+   * @param timeSlices - The timeslices of the problem.
+   * @returns The linear program.
+   */
+  function withTimestamps(linProgram: SchedulingLP, timeSlices: TimeSlice[]): SchedulingLP {
+    if (!hasTimestamps(timeSlices)) {
+      return linProgram;
+    }
+    const addTimestamps = (shift: Shift) => ({
+      ...shift,
+      startTime: timeSlices[shift.start].start,
+      endTime: timeSlices[shift.end].end,
+    });
+    const convert = (schedule: Schedule): Schedule => ({
+      ...schedule,
+      shifts: schedule.shifts?.map((s) => s.map(addTimestamps)),
+      changes: schedule.changes?.map(({ added, removed }) => ({
+        added: added.map(addTimestamps),
+        removed: removed.map(addTimestamps),
+      })),
+    });
+    return {
+      ...linProgram,
+      solve: (solver?: lp.Solver) => convert(linProgram.solve(solver)),
+      alternatives: (alternatives: Alternatives, solver?: lp.Solver) =>
+        linProgram.alternatives(alternatives, solver).map(convert),
+      importSolution: (text: string) => convert(linProgram.importSolution(text)),
+    };
+  }
+
+  function buildLP(
+    duration: number[],
+    expected: number[],
+    expectedOfType: Record<string, number[]>,
+    riderType: string[],
+    available: Array<Array<boolean | Availability>>,
     guaranteed: number[],
     minDuration: number,
-  ) {
+    options: Options = {},
+  ): SchedulingLP {
     const numRiders = guaranteed.length;
     const numTimeSlices = expected.length;
 
@@ -180,14 +1288,186 @@ namespace scheduling {
     assert(riderType.length === numRiders);
     assert(available.length === numTimeSlices);
     assert(available.every((a) => a.length === numRiders));
+    const { replan } = options;
+    const previous = replan?.previous ?? guaranteed.map(() => expected.map(() => false));
+    const locked = replan?.locked ?? guaranteed.map(() => expected.map(() => false));
+    assert(previous.length === numRiders && previous.every((p) => p.length === numTimeSlices));
+    assert(locked.length === numRiders && locked.every((l) => l.length === numTimeSlices));
+    // the locked timeslices that were not assigned must stay so
+    const isAvailable = (t: number, rider: number) =>
+      available[t][rider] !== false &&
+      available[t][rider] !== 'unavailable' &&
+      !(locked[rider][t] && !previous[rider][t]);
+    const isPossible = (t: number, rider: number) => available[t][rider] === 'possible';
     assert(guaranteed.length === numRiders);
     assert(duration.every((d) => 0 <= d));
     assert(expected.every((count) => 0 <= count && count <= numRiders));
     assert(riderType.every((type) => expectedOfType[type]));
+    const flow = options.formulation === 'flow';
+    assert(
+      !flow || !(options.zones || options.vehicles || replan),
+      'The flow formulation does not support zones, vehicles and re-planning',
+    );
+    assert(options.shortagePenalty === undefined || 0 <= options.shortagePenalty);
+
+    // without zones, the shifts are not assigned to any zone
+    const { zones } = options;
+    const zoneNames: string[] = [];
+    const addZone = (zone: string) => zoneNames.indexOf(zone) < 0 && zoneNames.push(zone);
+    Object.keys(zones?.expected ?? {}).forEach(addZone);
+    Object.keys(zones?.expectedOfType ?? {}).forEach(addZone);
+    zones?.eligible?.forEach((e) => e.forEach(addZone));
+    const expectedInZone = makeRecord(zoneNames, (zone) => zones?.expected?.[zone] ?? expected.map(() => 0));
+    const expectedOfTypeInZone = zones?.expectedOfType ?? {};
+    const eligible = zones?.eligible ?? guaranteed.map(() => zoneNames);
+    assert(!zones || zoneNames.length, 'No zone has been specified');
+    assert(zoneNames.every(isLPName), "The names of the zones can only contain letters, digits and _{}/.&#$%~'@^");
+    const zonesOf = (rider: number) => (zones ? eligible[rider] : [undefined]);
+    const travelTime = zones?.travelTime ?? 0;
+    const switchPenalty = zones?.switchPenalty ?? 0;
+    assert(zoneNames.every((zone) => expectedInZone[zone].length === numTimeSlices));
+    assert(
+      Object.keys(expectedOfTypeInZone).every((zone) =>
+        Object.keys(expectedOfTypeInZone[zone]).every(
+          (type) => expectedOfType[type] && expectedOfTypeInZone[zone][type].length === numTimeSlices,
+        ),
+      ),
+    );
+    assert(eligible.length === numRiders);
+    assert(0 <= travelTime && 0 <= switchPenalty);
+
+    // without vehicles, each rider rides a vehicle of his/her type
+    const { vehicles } = options;
+    const vehicleTypes = vehicles?.eligible ?? riderType.map((type) => [type]);
+    const pool = vehicles?.pool ?? {};
+    assert(vehicleTypes.length === numRiders && vehicleTypes.every((v) => v.every((type) => expectedOfType[type])));
+    assert(types.every(isLPName), "The names of the types can only contain letters, digits and _{}/.&#$%~'@^");
+    assert(
+      Object.keys(pool).every(
+        (type) => expectedOfType[type] && pool[type].length === numTimeSlices && pool[type].every((n) => 0 <= n),
+      ),
+    );
+
+    // each range can be assigned in any eligible zone, with any eligible vehicle
+    const choices = guaranteed.map((_, rider) => {
+      const r: Array<{ zone?: string; type: string; index: string }> = [];
+      for (const zone of zonesOf(rider)) {
+        for (const type of vehicleTypes[rider]) {
+          r.push({ zone, type, index: `${zone === undefined ? '' : `[${zone}]`}${vehicles ? `[${type}]` : ''}` });
+        }
+      }
+      return r;
+    });
+
+    // the contractual limits default to no limit at all
+    const maxTime = options.maxTime ?? guaranteed.map(() => Infinity);
+    const maxShifts = options.maxShifts ?? guaranteed.map(() => Infinity);
+    const maxShiftDuration = options.maxShiftDuration ?? guaranteed.map(() => Infinity);
+    const minRest = options.minRest ?? guaranteed.map(() => 0);
+    assert(maxTime.length === numRiders);
+    assert(maxShifts.length === numRiders);
+    assert(maxShiftDuration.length === numRiders);
+    assert(minRest.length === numRiders);
+    assert(guaranteed.every((g, rider) => g <= maxTime[rider]));
+
+    // without days, the whole horizon is a single day (and week)
+    const days = options.days ?? [{ numTimeSlices }];
+    const numWeeks = Math.ceil(days.length / 7);
+    assert(days.reduce((sum, day) => sum + day.numTimeSlices, 0) === numTimeSlices);
+    assert(days.every((day) => 0 <= (day.gap ?? 0)));
+    const dayOf: number[] = [];
+    const gapBefore: number[] = [0];
+    days.forEach((day, i) => {
+      for (let t = 0; t < day.numTimeSlices; t += 1) {
+        dayOf.push(i);
+        gapBefore.push(0);
+      }
+      gapBefore[dayOf.length] = day.gap ?? 0;
+    });
+    const weekOf = (t: number) => Math.floor(dayOf[t] / 7);
+    const canContinue = (t1: number, t: number) =>
+      dayOf[t] === dayOf[t1] || (dayOf[t] === dayOf[t1] + 1 && days[dayOf[t1]].overnightShifts && !gapBefore[t]);
+
+    const shiftDuration = (t1: number, t2: number) => {
+      let r = 0;
+      for (let t = t1; t <= t2; t += 1) {
+        r += duration[t];
+      }
+      return r;
+    };
+
+    // the previous shifts are the runs of assigned timeslices within a day
+    const previousShifts = previous.map((p) => {
+      const r: Shift[] = [];
+      p.forEach((a, t) => {
+        const last = r[r.length - 1];
+        if (a && last && last.end === t - 1 && canContinue(last.start, t)) {
+          last.end = t;
+        } else if (a) {
+          r.push({ start: t, end: t, duration: 0 });
+        }
+      });
+      r.forEach((shift) => (shift.duration = shiftDuration(shift.start, shift.end)));
+      return r;
+    });
+
+    const maxDailyTime = options.maxDailyTime ?? guaranteed.map(() => Infinity);
+    const maxWorkingDays = options.maxWorkingDays ?? guaranteed.map(() => Infinity);
+    const maxConsecutiveDays = options.maxConsecutiveDays ?? guaranteed.map(() => Infinity);
+    const minOvernightRest = options.minOvernightRest ?? guaranteed.map(() => 0);
+    assert(maxDailyTime.length === numRiders);
+    assert(maxWorkingDays.length === numRiders);
+    assert(maxConsecutiveDays.length === numRiders);
+    assert(minOvernightRest.length === numRiders);
+
+    const { rates } = options;
+    const rateMultiplier = options.rateMultiplier ?? expected.map(() => 1);
+    assert(rates === undefined || rates.length === numRiders);
+    assert(rateMultiplier.length === numTimeSlices);
+    const premium = (rider: number, t1: number, t2: number) => {
+      let r = 0;
+      for (let t = t1; t <= t2 && rates; t += 1) {
+        r += rates[rider].baseRate * (rateMultiplier[t] - 1) * duration[t];
+      }
+      return r;
+    };
+
+    const possiblePenalty = options.possiblePenalty ?? 1;
+    assert(0 <= possiblePenalty);
+    const nonPreferredTime = (rider: number, t1: number, t2: number) => {
+      let r = 0;
+      for (let t = t1; t <= t2; t += 1) {
+        r += isPossible(t, rider) ? duration[t] : 0;
+      }
+      return r;
+    };
 
-    const objective = new lp.LinExpr<AuxData>();
+    const model = new lp.Model<AuxData>();
+    const { objective } = model;
 
-    const timeCounted = guaranteed.map((_, rider) => new lp.Constraint<AuxData>(`timeCounted[${rider}]`, 0));
+    // the terms are combined into the objective once they are complete
+    const config = options.objective;
+    assert(!config || !config.weights !== !config.priority, 'The objective needs either weights or a priority');
+    assert(
+      !config?.weights ||
+        Object.keys(config.weights).every(
+          (term) => OBJECTIVE_TERMS.indexOf(term as ObjectiveTerm) >= 0 && config.weights![term as ObjectiveTerm]! >= 0,
+        ),
+      'The weights of the objective must be non-negative and refer to its terms',
+    );
+    assert(
+      !config?.priority ||
+        config.priority.every((term, i) => OBJECTIVE_TERMS.indexOf(term) >= 0 && config.priority!.indexOf(term) === i),
+      'The priority of the objective must list distinct terms',
+    );
+    const mentions = (term: ObjectiveTerm) => !!config?.weights?.[term] || (config?.priority ?? []).indexOf(term) >= 0;
+    const terms = makeRecord(OBJECTIVE_TERMS, () => new lp.LinExpr<AuxData>());
+
+    // time is counted per week only when the horizon is split into days
+    const week = (w: number) => (options.days ? `[${w}]` : '');
+    const timeCounted = guaranteed.map((_, rider) =>
+      range(numWeeks).map((w) => new lp.Constraint<AuxData>(`timeCounted[${rider}]${week(w)}`, 0)),
+    );
     const haveEnoughRiders = expected.map((count, t) =>
       count ? new lp.Constraint<AuxData>(`enough[${t}]`, count) : undefined,
     );
@@ -196,68 +1476,693 @@ namespace scheduling {
         count ? new lp.Constraint<AuxData>(`enough[${type}][${t}]`, count) : undefined,
       ),
     );
+    const haveEnoughRidersInZone = makeRecord(zoneNames, (zone) =>
+      expectedInZone[zone].map((count, t) =>
+        count ? new lp.Constraint<AuxData>(`enoughInZone[${zone}][${t}]`, count) : undefined,
+      ),
+    );
+    const haveEnoughRidersOfTypeInZone = makeRecord(zoneNames, (zone) =>
+      makeRecord(types, (type) =>
+        (expectedOfTypeInZone[zone]?.[type] ?? []).map((count, t) =>
+          count ? new lp.Constraint<AuxData>(`enoughInZone[${zone}][${type}][${t}]`, count) : undefined,
+        ),
+      ),
+    );
+    const usedVehicles = makeRecord(Object.keys(pool), (type) =>
+      pool[type].map((count, t) =>
+        isFinite(count) ? new lp.Constraint<AuxData>(`pool[${type}][${t}]`, undefined, count) : undefined,
+      ),
+    );
     const disjointAllocations = guaranteed.map((_, rider) =>
       expected.map((_, t) =>
-        available[t][rider] ? new lp.Constraint<AuxData>(`disjoint[${rider}][${t}]`, undefined, 1) : undefined,
+        isAvailable(t, rider) && !flow
+          ? new lp.Constraint<AuxData>(`disjoint[${rider}][${t}]`, undefined, 1)
+          : undefined,
       ),
     );
 
+    const shifts = maxShifts.map((max, rider) =>
+      isFinite(max) ? new lp.Constraint<AuxData>(`shifts[${rider}]`, undefined, max) : undefined,
+    );
+
+    const dailyTime = maxDailyTime.map((max, rider) =>
+      days.map((_, day) =>
+        isFinite(max) ? new lp.Constraint<AuxData>(`dailyTime[${rider}][${day}]`, undefined, max) : undefined,
+      ),
+    );
+    const works = guaranteed.map((_, rider) =>
+      days.map((_, day) =>
+        isFinite(maxWorkingDays[rider]) || isFinite(maxConsecutiveDays[rider])
+          ? new lp.BoolVar<AuxData>(`works[${rider}][${day}]`)
+          : undefined,
+      ),
+    );
+    const worksOn = works.map((w, rider) =>
+      w.map((v, day) => {
+        if (!v) {
+          return undefined;
+        }
+        const c = new lp.Constraint<AuxData>(`worksOn[${rider}][${day}]`, undefined, 0);
+        c.setCoefficient(v, -days[day].numTimeSlices); // worksOn: sum(a) - numTimeSlices * works <= 0
+        return c;
+      }),
+    );
+
+    // the overnight rest constraints are indexed by the end of the first range
+    // and the start of the second one, and they are also listed by the latter
+    const overnightRest = guaranteed.map(() => ({} as Record<string, lp.Constraint<AuxData>>));
+    const overnightRestBefore = guaranteed.map(() => expected.map(() => [] as Array<lp.Constraint<AuxData>>));
+
+    // a range is dominated by a shorter one if its first or last timeslice has
+    // no demand, costs something and does not change its day
+    const hasDemand = expected.map(
+      (count, t) =>
+        count > 0 ||
+        types.some((type) => expectedOfType[type][t] > 0) ||
+        zoneNames.some(
+          (zone) =>
+            expectedInZone[zone][t] > 0 || types.some((type) => (expectedOfTypeInZone[zone]?.[type]?.[t] ?? 0) > 0),
+        ),
+    );
+    const canTrim = (t: number, d: number) => !hasDemand[t] && rateMultiplier[t] >= 1 && d - duration[t] >= minDuration;
+    const isDominated = (rider: number, t1: number, t2: number, d: number) =>
+      options.pruneRanges &&
+      !previousShifts[rider].some((shift) => shift.start === t1 && shift.end === t2) &&
+      ((canTrim(t1, d) && dayOf[t1] === dayOf[t1 + 1]) || canTrim(t2, d));
+
+    const assigned: Array<lp.BoolVar<AuxData>> = [];
+    const shiftVars = guaranteed.map(() => ({} as Record<string, Array<lp.BoolVar<AuxData>>>));
     let timeCoefficient = 0;
 
-    for (let rider = 0; rider < numRiders; rider += 1) {
+    // the ranges are only enumerated in the (default) ranges formulation
+    for (let rider = 0; rider < numRiders && !flow; rider += 1) {
       for (let t1 = 0; t1 < numTimeSlices; t1 += 1) {
         let d = 0;
-        for (let t2 = t1; t2 < numTimeSlices && available[t2][rider]; t2 += 1) {
+        for (let t2 = t1; t2 < numTimeSlices && isAvailable(t2, rider) && canContinue(t1, t2); t2 += 1) {
           d += duration[t2];
-          if (d >= minDuration) {
-            const v = new lp.BoolVar<AuxData>(`a[${rider}][${t1}..${t2}]`);
-            v.auxData = { rider, t1, t2 };
-            objective.setCoefficient(v, 1);
-            timeCounted[rider].setCoefficient(v, -d); // timeCounted[rider]: 0 <= time[rider] - sum(durations)
-            for (let t = t1; t <= t2; t += 1) {
-              haveEnoughRiders[t]?.setCoefficient(v, 1);
-              haveEnoughRidersOfType[riderType[rider]][t]?.setCoefficient(v, 1);
-              disjointAllocations[rider][t]?.setCoefficient(v, 1);
+          if (d > maxShiftDuration[rider]) {
+            break;
+          }
+          if (d >= minDuration && !isDominated(rider, t1, t2, d)) {
+            for (const { zone, type, index } of choices[rider]) {
+              const v = new lp.BoolVar<AuxData>(`a[${rider}]${index}[${t1}..${t2}]`);
+              v.auxData = { rider, t1, t2, zone, type };
+              terms.shifts.setCoefficient(v, 1);
+              timeCounted[rider][weekOf(t1)].setCoefficient(v, -d); // timeCounted[rider]: 0 <= time[rider] - sum(durations)
+              for (let t = t1; t <= t2; t += 1) {
+                haveEnoughRiders[t]?.setCoefficient(v, 1);
+                haveEnoughRidersOfType[type][t]?.setCoefficient(v, 1);
+                usedVehicles[type]?.[t]?.setCoefficient(v, 1);
+                disjointAllocations[rider][t]?.setCoefficient(v, 1);
+                if (zone !== undefined) {
+                  haveEnoughRidersInZone[zone][t]?.setCoefficient(v, 1);
+                  haveEnoughRidersOfTypeInZone[zone][type][t]?.setCoefficient(v, 1);
+                }
+              }
+              for (let t = t2 + 1, rest = gapBefore[t]; t < numTimeSlices && rest < minRest[rider]; t += 1) {
+                disjointAllocations[rider][t]?.setCoefficient(v, 1); // no other shift can start during the rest
+                rest += duration[t] + gapBefore[t + 1];
+              }
+              for (let u = t2 + 1, rest = gapBefore[u]; u < numTimeSlices && rest < minOvernightRest[rider]; u += 1) {
+                if (dayOf[u] > dayOf[t1] && rest >= minRest[rider] && isAvailable(u, rider)) {
+                  const key = `${t2}..${u}`;
+                  if (!overnightRest[rider][key]) {
+                    overnightRest[rider][key] = new lp.Constraint<AuxData>(
+                      `overnightRest[${rider}][${key}]`,
+                      undefined,
+                      1,
+                    );
+                    overnightRestBefore[rider][u].push(overnightRest[rider][key]);
+                  }
+                  overnightRest[rider][key].setCoefficient(v, 1);
+                }
+                rest += duration[u] + gapBefore[u + 1];
+              }
+              for (const c of overnightRestBefore[rider][t1]) {
+                c.setCoefficient(v, 1);
+              }
+              shifts[rider]?.setCoefficient(v, 1);
+              dailyTime[rider][dayOf[t1]]?.setCoefficient(v, d);
+              worksOn[rider][dayOf[t1]]?.setCoefficient(v, 1);
+              assigned.push(v);
+              shiftVars[rider][`${t1}..${t2}`] = shiftVars[rider][`${t1}..${t2}`] ?? [];
+              shiftVars[rider][`${t1}..${t2}`].push(v);
+              timeCoefficient += 1;
             }
-            timeCoefficient += 1;
           }
         }
       }
     }
 
+    // in the flow formulation, the variables are the timeslices worked by each
+    // rider and the starts (and ends) of the shifts
+    const starts = guaranteed.map(() => expected.map(() => undefined as lp.BoolVar<AuxData> | undefined));
+    const flowConstraints: Array<lp.Constraint<AuxData>> = [];
+    for (let rider = 0; rider < numRiders && flow; rider += 1) {
+      const x = expected.map((_, t) =>
+        isAvailable(t, rider) ? new lp.BoolVar<AuxData>(`x[${rider}][${t}]`) : undefined,
+      );
+      // whether the timeslices t - 1 and t can be part of the same shift
+      const follows = (t: number) => 0 < t && x[t - 1] !== undefined && x[t] !== undefined && canContinue(t - 1, t);
+      // the timeslices from t until the shift is long enough (or too long)
+      const window = (t: number, max: number) => {
+        const r: number[] = [];
+        for (let u = t, d = 0; d < max && u < numTimeSlices && (u === t || follows(u)); u += 1) {
+          r.push(u);
+          d += duration[u];
+        }
+        return r;
+      };
+      const minWindow = x.map((_, t) => window(t, minDuration));
+      const s = starts[rider];
+      x.forEach((v, t) => {
+        const w = minWindow[t];
+        const d = w.reduce((sum, u) => sum + duration[u], 0);
+        if (v && d >= minDuration && minDuration <= maxShiftDuration[rider]) {
+          s[t] = new lp.BoolVar<AuxData>(`s[${rider}][${t}]`);
+          terms.shifts.setCoefficient(s[t]!, 1);
+          shifts[rider]?.setCoefficient(s[t]!, 1);
+          worksOn[rider][dayOf[t]]?.setCoefficient(s[t]!, 1);
+          timeCoefficient += 1;
+        }
+      });
+      const needsEnd = minRest[rider] > 0 || minOvernightRest[rider] > 0;
+      const e = x.map((v, t) => (v && needsEnd ? new lp.BoolVar<AuxData>(`e[${rider}][${t}]`) : undefined));
+
+      x.forEach((v, t) => {
+        if (!v) {
+          return;
+        }
+        v.auxData = { rider, t1: t, t2: t, type: riderType[rider] };
+        timeCounted[rider][weekOf(t)].setCoefficient(v, -duration[t]); // timeCounted[rider]: 0 <= time[rider] - sum(durations)
+        haveEnoughRiders[t]?.setCoefficient(v, 1);
+        haveEnoughRidersOfType[riderType[rider]][t]?.setCoefficient(v, 1);
+        dailyTime[rider][dayOf[t]]?.setCoefficient(v, duration[t]);
+        assigned.push(v);
+
+        const start = new lp.Constraint<AuxData>(`start[${rider}][${t}]`, undefined, 0);
+        start.setCoefficient(v, 1); // start[rider][t]: x[t] - x[t - 1] - s[t] <= 0
+        if (follows(t)) {
+          start.setCoefficient(x[t - 1]!, -1);
+        }
+        if (s[t]) {
+          start.setCoefficient(s[t]!, -1);
+          const w = minWindow[t];
+          const long = new lp.Constraint<AuxData>(`minDuration[${rider}][${t}]`, 0);
+          w.forEach((u) => long.setCoefficient(x[u]!, 1));
+          long.setCoefficient(s[t]!, -w.length); // minDuration[rider][t]: 0 <= sum(x) - |window| * s[t]
+          const single = new lp.Constraint<AuxData>(`oneStart[${rider}][${t}]`, undefined, 1);
+          w.forEach((u) => s[u] && single.setCoefficient(s[u]!, 1)); // oneStart[rider][t]: sum(s) <= 1
+          flowConstraints.push(long);
+          if (single.size() > 1) {
+            flowConstraints.push(single);
+          }
+        }
+        flowConstraints.push(start);
+
+        // a run of timeslices longer than the maximum must include a start
+        const w = window(t, maxShiftDuration[rider] + 1e-9);
+        const d = w.reduce((sum, u) => sum + duration[u], 0);
+        if (d > maxShiftDuration[rider]) {
+          const c = new lp.Constraint<AuxData>(`maxDuration[${rider}][${t}]`, undefined, w.length - 1);
+          w.forEach((u) => c.setCoefficient(x[u]!, 1));
+          w.forEach((u) => u > t && s[u] && c.setCoefficient(s[u]!, -1)); // maxDuration: sum(x) - sum(s) <= |window| - 1
+          flowConstraints.push(c);
+        }
+
+        const end = e[t];
+        if (end) {
+          const c = new lp.Constraint<AuxData>(`end[${rider}][${t}]`, undefined, 0);
+          c.setCoefficient(v, 1); // end[rider][t]: x[t] - x[t + 1] - e[t] <= 0
+          c.setCoefficient(end, -1);
+          if (follows(t + 1)) {
+            c.setCoefficient(x[t + 1]!, -1);
+          }
+          flowConstraints.push(c);
+          if (follows(t + 1) && s[t + 1]) {
+            const next = new lp.Constraint<AuxData>(`endBeforeStart[${rider}][${t}]`, undefined, 1);
+            next.setCoefficient(v, 1); // endBeforeStart[rider][t]: x[t] + s[t + 1] - e[t] <= 1
+            next.setCoefficient(s[t + 1]!, 1);
+            next.setCoefficient(end, -1);
+            flowConstraints.push(next);
+          }
+          const rest = new lp.Constraint<AuxData>(`rest[${rider}][${t}]`, undefined, 0);
+          for (let u = t + 1, r = gapBefore[u]; u < numTimeSlices && r < minRest[rider]; u += 1) {
+            s[u] && rest.setCoefficient(s[u]!, 1);
+            r += duration[u] + gapBefore[u + 1];
+          }
+          for (let u = t + 1, r = gapBefore[u]; u < numTimeSlices && r < minOvernightRest[rider]; u += 1) {
+            if (dayOf[u] > dayOf[t]) {
+              s[u] && rest.setCoefficient(s[u]!, 1);
+            }
+            r += duration[u] + gapBefore[u + 1];
+          }
+          if (rest.size()) {
+            rest.upperBound = rest.size();
+            rest.setCoefficient(end, rest.size()); // rest[rider][t]: sum(s) + n * e[t] <= n
+            flowConstraints.push(rest);
+          }
+        }
+      });
+    }
+
+    // the overtime term is reported without the cost of the guaranteed time,
+    // which is paid anyway
+    const timeVars = guaranteed.map(() => [] as Array<lp.RealVar<AuxData>>);
+    let guaranteedCost = 0;
     for (let rider = 0; rider < numRiders; rider += 1) {
-      const v = new lp.RealVar<AuxData>(`time[${rider}]`, guaranteed[rider]); // guaranteed[rider] <= time[rider]
-      objective.setCoefficient(v, timeCoefficient);
-      timeCounted[rider].setCoefficient(v, 1); // timeCounted[rider]: 0 <= time[rider] - sum(durations)
+      const max = isFinite(maxTime[rider]) ? maxTime[rider] : undefined;
+      const rate = rates ? rates[rider].overtimeRate ?? rates[rider].baseRate : 1;
+      guaranteedCost += rate * guaranteed[rider] * numWeeks;
+      for (let w = 0; w < numWeeks; w += 1) {
+        const v = new lp.RealVar<AuxData>(`time[${rider}]${week(w)}`, guaranteed[rider], max); // guaranteed <= time <= max
+        terms.hours.setCoefficient(v, 1);
+        terms.overtime.setCoefficient(v, rate);
+        timeCounted[rider][w].setCoefficient(v, 1); // timeCounted[rider]: 0 <= time[rider] - sum(durations)
+        timeVars[rider].push(v);
+      }
     }
 
-    const constraints = [...timeCounted];
-    append(constraints, haveEnoughRiders);
-    types.forEach((type) => append(constraints, haveEnoughRidersOfType[type]));
-    disjointAllocations.forEach((a) => append(constraints, a));
+    for (const v of assigned) {
+      const { rider, t1, t2 } = v.auxData!;
+      terms.overtime.setCoefficient(v, premium(rider, t1, t2));
+      terms.preferences.setCoefficient(v, nonPreferredTime(rider, t1, t2));
+    }
 
-    const solve = () => {
-      const solution = lp.minimize(objective, constraints);
-      if (!solution) {
-        return undefined;
+    const workingDays: Array<lp.Constraint<AuxData>> = [];
+    works.forEach((w, rider) => {
+      if (isFinite(maxWorkingDays[rider])) {
+        const c = new lp.Constraint<AuxData>(`workingDays[${rider}]`, undefined, maxWorkingDays[rider]);
+        w.forEach((v) => v && c.setCoefficient(v, 1));
+        workingDays.push(c);
+      }
+      const k = maxConsecutiveDays[rider];
+      for (let day = 0; isFinite(k) && day + k < days.length; day += 1) {
+        const c = new lp.Constraint<AuxData>(`consecutiveDays[${rider}][${day}]`, undefined, k);
+        w.slice(day, day + k + 1).forEach((v) => v && c.setCoefficient(v, 1));
+        workingDays.push(c);
       }
+    });
 
+    // a shift cannot start in a zone less than the travel time after the end
+    // of a shift in another zone
+    const travel: Array<lp.Constraint<AuxData>> = [];
+    if (travelTime) {
+      const ending = guaranteed.map(() => expected.map(() => [] as Array<lp.BoolVar<AuxData>>));
+      const starting = guaranteed.map(() => expected.map(() => [] as Array<lp.BoolVar<AuxData>>));
+      for (const v of assigned) {
+        const { rider, t1, t2 } = v.auxData!;
+        ending[rider][t2].push(v);
+        starting[rider][t1].push(v);
+      }
+      for (let rider = 0; rider < numRiders; rider += 1) {
+        for (let e = 0; e < numTimeSlices; e += 1) {
+          for (let u = e + 1, gap = gapBefore[u]; u < numTimeSlices && gap < travelTime; u += 1) {
+            for (const zone of zoneNames) {
+              const before = ending[rider][e].filter((v) => v.auxData!.zone !== zone);
+              const after = starting[rider][u].filter((v) => v.auxData!.zone === zone);
+              if (before.length && after.length) {
+                const c = new lp.Constraint<AuxData>(`travel[${rider}][${zone}][${e}..${u}]`, undefined, 1);
+                [...before, ...after].forEach((v) => c.setCoefficient(v, 1)); // travel: sum(a) <= 1
+                travel.push(c);
+              }
+            }
+            gap += duration[u] + gapBefore[u + 1];
+          }
+        }
+      }
+    }
+
+    // each zone where a rider works in a day, beyond the first one, is a switch
+    const zoneSwitches: Array<lp.Constraint<AuxData>> = [];
+    const zoneOf: Record<string, lp.Constraint<AuxData>> = {};
+    if (switchPenalty || mentions('switches')) {
+      for (let rider = 0; rider < numRiders; rider += 1) {
+        for (let day = 0; day < days.length && eligible[rider].length > 1; day += 1) {
+          const switches = new lp.RealVar<AuxData>(`switches[${rider}][${day}]`, 0);
+          terms.switches.setCoefficient(switches, 1);
+          const c = new lp.Constraint<AuxData>(`zoneSwitches[${rider}][${day}]`, undefined, 1);
+          c.setCoefficient(switches, -1); // zoneSwitches[rider][day]: sum(inZone) - switches <= 1
+          for (const zone of eligible[rider]) {
+            const key = `${rider}][${zone}][${day}`;
+            const inZone = new lp.BoolVar<AuxData>(`inZone[${key}]`);
+            c.setCoefficient(inZone, 1);
+            zoneOf[key] = new lp.Constraint<AuxData>(`zoneOf[${key}]`, undefined, 0);
+            zoneOf[key].setCoefficient(inZone, -days[day].numTimeSlices); // zoneOf: sum(a) - numTimeSlices * inZone <= 0
+            zoneSwitches.push(zoneOf[key]);
+          }
+          zoneSwitches.push(c);
+        }
+      }
+      for (const v of assigned) {
+        const { rider, t1, zone } = v.auxData!;
+        zoneOf[`${rider}][${zone}][${dayOf[t1]}`]?.setCoefficient(v, 1);
+      }
+    }
+
+    // the fairness measure is either part of the objective (with its weight)
+    // or the objective of a second stage (see solve)
+    const { fairness } = options;
+    const fairnessMeasure = new lp.LinExpr<AuxData>();
+    const fairnessConstraints: Array<lp.Constraint<AuxData>> = [];
+    if (fairness) {
+      const target = fairness.target ?? guaranteed;
+      assert(target.length === numRiders);
+      assert(fairness.weight === undefined || 0 <= fairness.weight);
+      const lowest = -numWeeks * Math.max(0, ...target);
+      const maxExtra = new lp.RealVar<AuxData>('maxExtra', fairness.measure === 'max' ? 0 : lowest);
+      const minExtra = fairness.measure === 'spread' ? new lp.RealVar<AuxData>('minExtra', lowest) : undefined;
+      fairnessMeasure.setCoefficient(maxExtra, 1);
+      const fairMax = target.map((t, rider) => {
+        const c = new lp.Constraint<AuxData>(`fairMax[${rider}]`, undefined, numWeeks * t);
+        c.setCoefficient(maxExtra, -1); // fairMax[rider]: sum(durations) - maxExtra <= target[rider]
+        return c;
+      });
+      const fairMin = target.map((t, rider) => {
+        if (!minExtra) {
+          return undefined;
+        }
+        const c = new lp.Constraint<AuxData>(`fairMin[${rider}]`, numWeeks * t);
+        c.setCoefficient(minExtra, -1); // fairMin[rider]: target[rider] <= sum(durations) - minExtra
+        return c;
+      });
+      if (minExtra) {
+        fairnessMeasure.setCoefficient(minExtra, -1);
+      }
+      for (const v of assigned) {
+        const { rider, t1, t2 } = v.auxData!;
+        fairMax[rider].setCoefficient(v, shiftDuration(t1, t2));
+        fairMin[rider]?.setCoefficient(v, shiftDuration(t1, t2));
+      }
+      append(fairnessConstraints, fairMax);
+      append(fairnessConstraints, fairMin);
+      for (const [v, c] of fairnessMeasure.getVarCoefficients()) {
+        terms.fairness.setCoefficient(v, c);
+      }
+    }
+
+    // when revising a schedule, the previous shifts with a locked timeslice
+    // are kept and the riders whose shifts change are counted
+    const changes = new lp.LinExpr<AuxData>();
+    const replanConstraints: Array<lp.Constraint<AuxData>> = [];
+    if (replan) {
+      previousShifts.forEach((p, rider) => {
+        const changed = new lp.BoolVar<AuxData>(`changed[${rider}]`);
+        changes.setCoefficient(changed, 1);
+        const c = new lp.Constraint<AuxData>(`changes[${rider}]`, undefined, -p.length);
+        c.setCoefficient(changed, -(numTimeSlices + p.length)); // changes[rider]: new - previous - M * changed <= -numPrevious
+        for (const key of Object.keys(shiftVars[rider])) {
+          shiftVars[rider][key].forEach((v) => c.setCoefficient(v, 1));
+        }
+        for (const { start, end } of p) {
+          const vars = shiftVars[rider][`${start}..${end}`] ?? [];
+          vars.forEach((v) => c.setCoefficient(v, -1));
+          if (range(end - start + 1).some((i) => locked[rider][start + i])) {
+            assert(vars.length, `The locked shift ${start}..${end} of rider ${rider} cannot be kept`);
+            const keep = new lp.Constraint<AuxData>(`keep[${rider}][${start}..${end}]`, 1);
+            vars.forEach((v) => keep.setCoefficient(v, 1)); // keep[rider][t1..t2]: 1 <= a[rider][t1..t2] (in any zone)
+            replanConstraints.push(keep);
+          }
+        }
+        replanConstraints.push(c);
+      });
+    }
+
+    const { shortagePenalty } = options;
+    if (shortagePenalty !== undefined || mentions('shortfall')) {
+      const addShortage = (c: lp.Constraint<AuxData> | undefined, name: string, t: number) => {
+        if (c) {
+          const v = new lp.RealVar<AuxData>(name, 0, c.lowerBound);
+          terms.shortfall.setCoefficient(v, duration[t]);
+          c.setCoefficient(v, 1); // enough[t]: expected[t] <= short[t] + sum(a)
+        }
+      };
+      haveEnoughRiders.forEach((c, t) => addShortage(c, `short[${t}]`, t));
+      types.forEach((type) =>
+        haveEnoughRidersOfType[type].forEach((c, t) => addShortage(c, `short[${type}][${t}]`, t)),
+      );
+      zoneNames.forEach((zone) => {
+        haveEnoughRidersInZone[zone].forEach((c, t) => addShortage(c, `shortInZone[${zone}][${t}]`, t));
+        types.forEach((type) =>
+          haveEnoughRidersOfTypeInZone[zone][type].forEach((c, t) =>
+            addShortage(c, `shortInZone[${zone}][${type}][${t}]`, t),
+          ),
+        );
+      });
+    }
+
+    // by default, a unit of counted time (or of its cost) weighs k, i.e. more
+    // than all of the shifts together, and the penalties are relative to it
+    const k = timeCoefficient;
+    const weights: Partial<Record<ObjectiveTerm, number>> = config
+      ? config.weights ?? { [config.priority![0]]: 1 }
+      : {
+          shifts: 1,
+          [rates ? 'overtime' : 'hours']: k,
+          preferences: k * possiblePenalty,
+          switches: k * switchPenalty,
+          fairness: k * (fairness?.weight ?? 0),
+          shortfall: k * (shortagePenalty ?? 0),
+        };
+    for (const term of OBJECTIVE_TERMS) {
+      for (const [v, c] of terms[term].getVarCoefficients()) {
+        if (weights[term] && c) {
+          objective.setCoefficient(v, (objective.getCoefficient(v) ?? 0) + weights[term]! * c);
+        }
+      }
+    }
+
+    timeCounted.forEach((c) => model.addConstraint(...c));
+    model.addConstraint(...haveEnoughRiders);
+    types.forEach((type) => model.addConstraint(...haveEnoughRidersOfType[type]));
+    zoneNames.forEach((zone) => {
+      model.addConstraint(...haveEnoughRidersInZone[zone]);
+      types.forEach((type) => model.addConstraint(...haveEnoughRidersOfTypeInZone[zone][type]));
+    });
+    Object.keys(usedVehicles).forEach((type) => model.addConstraint(...usedVehicles[type]));
+    disjointAllocations.forEach((a) => model.addConstraint(...a));
+    model.addConstraint(...flowConstraints);
+    model.addConstraint(...shifts);
+    overnightRest.forEach((c) => model.addConstraint(...Object.keys(c).map((key) => c[key])));
+    dailyTime.forEach((c) => model.addConstraint(...c));
+    worksOn.forEach((c) => model.addConstraint(...c));
+    model.addConstraint(...travel);
+    model.addConstraint(...workingDays);
+    model.addConstraint(...zoneSwitches);
+    model.addConstraint(...fairnessConstraints);
+    model.addConstraint(...replanConstraints);
+    const constraints = model.getConstraints();
+
+    const toSchedule = ({ status, solution = new lp.LinExpr<AuxData>() }: lp.Result<AuxData>): Schedule => {
+      if (status !== 'optimal' && status !== 'feasible') {
+        return { status };
+      }
       const assignment = guaranteed.map(() => expected.map(() => false));
+      const worked = guaranteed.map(() => range(numWeeks).map(() => 0));
+      const premiums = guaranteed.map(() => 0);
+      const nonPreferred = guaranteed.map(() => 0);
+      const newShifts = guaranteed.map(() => [] as Shift[]);
+      const zoneAssignment = guaranteed.map(() => expected.map(() => undefined as string | undefined));
+      const typeAssignment = guaranteed.map(() => expected.map(() => undefined as string | undefined));
       for (const [v, c] of solution.getVarCoefficients()) {
         if (v.auxData && c > 0.5) {
-          const { rider, t1, t2 } = v.auxData;
+          const { rider, t1, t2, zone, type } = v.auxData;
+          const shift: Shift = { start: t1, end: t2, duration: shiftDuration(t1, t2) };
+          if (zone !== undefined) {
+            shift.zone = zone;
+          }
+          if (vehicles) {
+            shift.type = type;
+          }
+          newShifts[rider].push(shift);
           for (let t = t1; t <= t2; t += 1) {
             assignment[rider][t] = true;
+            zoneAssignment[rider][t] = zone;
+            typeAssignment[rider][t] = type;
+            worked[rider][weekOf(t1)] += duration[t];
           }
+          premiums[rider] += premium(rider, t1, t2);
+          nonPreferred[rider] += nonPreferredTime(rider, t1, t2);
+        }
+      }
+      // in the flow formulation, the worked timeslices are merged into shifts
+      // unless a new shift starts
+      newShifts.forEach((r, rider) => {
+        if (flow) {
+          const merged: Shift[] = [];
+          r.sort((x, y) => x.start - y.start).forEach((shift) => {
+            const last = merged[merged.length - 1];
+            const s = starts[rider][shift.start];
+            if (
+              last &&
+              last.end === shift.start - 1 &&
+              canContinue(last.start, shift.start) &&
+              !(s && (solution.getCoefficient(s) ?? 0) > 0.5)
+            ) {
+              last.end = shift.end;
+              last.duration += shift.duration;
+            } else {
+              merged.push(shift);
+            }
+          });
+          newShifts[rider] = merged;
+        }
+      });
+
+      const cost = rates?.map((r, rider) => {
+        const overtime = worked[rider].reduce((sum, w) => sum + Math.max(0, w - guaranteed[rider]), 0);
+        const breakdown = {
+          guaranteed: r.baseRate * guaranteed[rider] * numWeeks,
+          overtime: (r.overtimeRate ?? r.baseRate) * overtime,
+          premium: premiums[rider],
+        };
+        return { ...breakdown, total: breakdown.guaranteed + breakdown.overtime + breakdown.premium };
+      });
+
+      const isIn = (shifts: Shift[]) => (shift: Shift) =>
+        shifts.some(({ start, end }) => start === shift.start && end === shift.end);
+      const shiftChanges =
+        replan &&
+        previousShifts.map((p, rider) => ({
+          added: newShifts[rider].filter((shift) => !isIn(p)(shift)),
+          removed: p.filter((shift) => !isIn(newShifts[rider])(shift)),
+        }));
+
+      const countAssigned = (t: number, type?: string, zone?: string) =>
+        assignment.filter(
+          (a, rider) =>
+            a[t] &&
+            (type === undefined || typeAssignment[rider][t] === type) &&
+            (zone === undefined || zoneAssignment[rider][t] === zone),
+        ).length;
+
+      return {
+        status,
+        objective: objective.evaluate(solution),
+        assignment,
+        shifts: newShifts,
+        countedTime: timeVars.map((vars) => vars.reduce((sum, v) => sum + (solution.getCoefficient(v) ?? 0), 0)),
+        workedTime: worked.map((w) => w.reduce((sum, x) => sum + x, 0)),
+        unworkedGuaranteed: worked.map((w, rider) => w.reduce((sum, x) => sum + Math.max(0, guaranteed[rider] - x), 0)),
+        coverage: expected.map((count, t) => ({
+          assigned: countAssigned(t),
+          expected: count,
+          assignedOfType: makeRecord(types, (type) => countAssigned(t, type)),
+          expectedOfType: makeRecord(types, (type) => expectedOfType[type][t]),
+        })),
+        shortage: expected.map((count, t) => Math.max(0, count - countAssigned(t))),
+        shortageOfType: makeRecord(types, (type) =>
+          expectedOfType[type].map((count, t) => Math.max(0, count - countAssigned(t, type))),
+        ),
+        zoneCoverage: zones
+          ? makeRecord(zoneNames, (zone) =>
+              expectedInZone[zone].map((count, t) => ({
+                assigned: countAssigned(t, undefined, zone),
+                expected: count,
+                assignedOfType: makeRecord(types, (type) => countAssigned(t, type, zone)),
+                expectedOfType: makeRecord(types, (type) => expectedOfTypeInZone[zone]?.[type]?.[t] ?? 0),
+              })),
+            )
+          : undefined,
+        cost,
+        nonPreferredTime: nonPreferred,
+        changes: shiftChanges,
+        objectiveTerms: makeRecord(
+          OBJECTIVE_TERMS,
+          (term) => terms[term].evaluate(solution) - (term === 'overtime' ? guaranteedCost : 0),
+        ) as Record<ObjectiveTerm, number>,
+      };
+    };
+
+    // the objectives are minimized in order, each one among the schedules
+    // that are optimal (up to rounding errors) for the previous ones
+    const stages = [objective, ...(config?.priority ?? []).slice(1).map((term) => terms[term])];
+    if (replan) {
+      stages.unshift(changes);
+    }
+    if (fairness && (config ? !mentions('fairness') : fairness.weight === undefined)) {
+      stages.push(fairnessMeasure);
+    }
+
+    const solveStages = (solver: lp.Solver, cuts: Array<lp.Constraint<AuxData>>) => {
+      let result: lp.Result<AuxData> = { status: 'error' };
+      let stageConstraints = [...constraints, ...cuts];
+      for (let i = 0; i < stages.length; i += 1) {
+        const next = lp.solve(stages[i], stageConstraints, solver);
+        if (!next.solution) {
+          // no solution at all, or no better one within the time limit
+          result = i ? { status: 'feasible', solution: result.solution } : next;
+          break;
         }
+        result = { status: result.status === 'feasible' ? 'feasible' : next.status, solution: next.solution };
+
+        const value = stages[i].evaluate(next.solution);
+        const optimal = model.le(`optimal[${i}]`, stages[i], value + 1e-6 * Math.max(1, Math.abs(value)));
+        stageConstraints = [...stageConstraints, optimal];
       }
 
-      return assignment;
+      // within the tolerance of the earlier stages, the later ones can let the
+      // counted time rise above the time worked, hence it is lowered back to
+      // the least value allowed by timeCounted (which is its only constraint,
+      // and no stage prefers a larger value)
+      timeVars.forEach((vars, rider) =>
+        vars.forEach((v, w) => {
+          if (result.solution) {
+            const others = timeCounted[rider][w].getVarCoefficients().filter(([u]) => u !== v);
+            const worked = others.reduce((sum, [u, c]) => sum - c * (result.solution!.getCoefficient(u) ?? 0), 0);
+            result.solution.setCoefficient(v, Math.max(guaranteed[rider], worked));
+          }
+        }),
+      );
+      return result;
+    };
+    const solve = (solver: lp.Solver = lp.defaultSolver()) => toSchedule(solveStages(solver, []));
+
+    // each schedule S is excluded by the different cut (on the ranges only)
+    //   ∑_{a ∉ S} a - ∑_{a ∈ S} a >= minDifference - |S|
+    const alternatives = (settings: Alternatives, solver: lp.Solver = lp.defaultSolver()) => {
+      const { count, gap, minDifference = 1 } = settings;
+      assert(!flow, 'Alternative schedules are not supported by the flow formulation');
+      assert(count !== undefined || gap !== undefined, 'Alternative schedules need a count or a gap');
+      assert(count === undefined || 1 <= count, 'The count of alternative schedules must be positive');
+      assert(gap === undefined || 0 <= gap, 'The gap of alternative schedules must be non-negative');
+      assert(1 <= minDifference && minDifference % 1 === 0, 'The minimum difference must be a positive integer');
+
+      const schedules: Schedule[] = [];
+      const cuts: Array<lp.Constraint<AuxData>> = [];
+      while (count === undefined || schedules.length < count) {
+        const result = solveStages(solver, cuts);
+        if (!result.solution) {
+          break;
+        }
+        schedules.push(toSchedule(result));
+
+        const chosen = new Set(assigned.filter((v) => (result.solution!.getCoefficient(v) ?? 0) > 0.5));
+        const different = new lp.Constraint<AuxData>(`different[${schedules.length - 1}]`, minDifference - chosen.size);
+        for (const v of assigned) {
+          different.setCoefficient(v, chosen.has(v) ? -1 : 1);
+        }
+        cuts.push(different);
+        if (gap !== undefined && schedules.length === 1) {
+          const value = objective.evaluate(result.solution);
+          cuts.push(model.le('withinGap', objective, value + Math.max(gap * Math.abs(value), 1e-6)));
+        }
+      }
+      return schedules;
     };
 
     return {
       solve,
-      export: () => lp.exportAsLP(objective, constraints),
+      alternatives,
+      export: () => lp.exportAsLP(model),
+      exportAsMPS: (format?: lp.MPSFormat) => lp.exportAsMPS(objective, constraints, format),
+      exportAsCPLEXLP: () => lp.exportAsCPLEXLP(objective, constraints),
+      importSolution: (text: string) => toSchedule(lp.importResult(text, objective, constraints)),
+      size: () => ({
+        variables: model.getVars().length,
+        constraints: constraints.length,
+        nonzeros: constraints.reduce((sum, c) => sum + c.size(), 0),
+      }),
     };
   }
 }
@@ -0,0 +1,407 @@
+/// <reference path="problem.ts" />
+/// <reference path="scheduling.ts" />
+/// <reference path="report.ts" />
+
+/**
+ * This module reads a scheduling problem from a spreadsheet and writes the
+ * solved schedule back into it.
+ *
+ * The spreadsheet has three sheets (their names can be changed, see
+ * {@link sheets.Layout}), each with a header row:
+ *
+ *  - `Riders`, with the columns `id`, `name` (optional), `type` and
+ *    `guaranteed`, and a row per rider;
+ *
+ *  - `Demand`, filled in by the Delivery Manager, with the columns
+ *    `timeslice`, `start` (optional), `duration`, `expected` and an
+ *    `expected <type>` column for each type, and a row per timeslice;
+ *
+ *  - `Availability`, with the column `rider` followed by a column per
+ *    timeslice (headed by its ID), and a row per rider; each cell is either a
+ *    checkbox, `1`/`0` or an availability level (`preferred`, `possible` or
+ *    `unavailable`), and an empty cell is unavailable.
+ *
+ * The spreadsheet is accessed through the small {@link sheets.Workbook}
+ * interface, which the Apps Script `Spreadsheet` objects satisfy, so that the
+ * adapter can also run in Node against a {@link sheets.MemoryWorkbook}.
+ */
+namespace sheets {
+  /**
+   * The content of a cell.
+   */
+  export type Cell = string | number | boolean | Date;
+
+  /**
+   * A rectangular range of cells (a subset of the Apps Script `Range`).
+   */
+  export interface Range {
+    /**
+     * Get the content of the cells.
+     *
+     * @returns The rows of the range.
+     */
+    getValues(): Cell[][];
+
+    /**
+     * Set the content of the cells.
+     *
+     * @param values - The rows of the range (with the same shape as the range).
+     * @returns The range.
+     */
+    setValues(values: Cell[][]): Range;
+  }
+
+  /**
+   * A sheet (a subset of the Apps Script `Sheet`).
+   */
+  export interface Sheet {
+    /**
+     * Get the name of the sheet.
+     *
+     * @returns The name of the sheet.
+     */
+    getName(): string;
+
+    /**
+     * Get the range that contains all of the data of the sheet.
+     *
+     * @returns The range.
+     */
+    getDataRange(): Range;
+
+    /**
+     * Get a range of the sheet.
+     *
+     * @param row - The first row (starting from 1).
+     * @param column - The first column (starting from 1).
+     * @param numRows - The number of rows.
+     * @param numColumns - The number of columns.
+     * @returns The range.
+     */
+    getRange(row: number, column: number, numRows: number, numColumns: number): Range;
+  }
+
+  /**
+   * A spreadsheet (a subset of the Apps Script `Spreadsheet`).
+   */
+  export interface Workbook {
+    /**
+     * Get a sheet by name.
+     *
+     * @param name - The name of the sheet.
+     * @returns The sheet, or `null` if there is no sheet with that name.
+     */
+    getSheetByName(name: string): Sheet | null;
+
+    /**
+     * Add a new (empty) sheet.
+     *
+     * @param name - The name of the sheet.
+     * @returns The sheet.
+     */
+    insertSheet(name: string): Sheet;
+  }
+
+  /**
+   * The names of the sheets used by the adapter.
+   */
+  export interface Layout {
+    /**
+     * The sheet of the riders (`Riders` by default).
+     */
+    riders?: string;
+
+    /**
+     * The sheet of the timeslices and of the expected riders (`Demand` by
+     * default).
+     */
+    demand?: string;
+
+    /**
+     * The sheet of the availability of the riders (`Availability` by default).
+     */
+    availability?: string;
+
+    /**
+     * The name of the sheet of the schedule (`Schedule` by default); a suffix
+     * is added if a sheet with the same name already exists.
+     */
+    schedule?: string;
+  }
+
+  /**
+   * Convert the content of a cell into a string.
+   *
+   * @param cell - The content of the cell.
+   * @returns The content, as a string; times are formatted as `HH:MM`.
+   */
+  function toText(cell: Cell): string {
+    if (cell instanceof Date) {
+      const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+      return `${pad(cell.getHours())}:${pad(cell.getMinutes())}`;
+    }
+    return `${cell}`.trim();
+  }
+
+  /**
+   * Get the address of a cell, e.g. `Riders!C3`.
+   *
+   * @param sheet - The name of the sheet.
+   * @param row - The index of the row (starting from 0).
+   * @param column - The index of the column (starting from 0).
+   * @returns The address of the cell.
+   */
+  function address(sheet: string, row: number, column: number): string {
+    let letters = '';
+    for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return `${sheet}!${letters}${row + 1}`;
+  }
+
+  /**
+   * Read the rows of a sheet, indexed by the names of the header row.
+   *
+   * @param book - The spreadsheet.
+   * @param name - The name of the sheet.
+   * @param required - The columns that must be present.
+   * @returns The header row, the position of each column by name and the rows
+   * (excluding the header and the empty ones), with their index.
+   * @throws If the sheet or a required column is missing.
+   */
+  function readSheet(book: Workbook, name: string, required: string[]) {
+    const sheet = book.getSheetByName(name);
+    if (!sheet) {
+      throw new Error(`Missing sheet ${name}`);
+    }
+    const [header = [], ...rows] = sheet.getDataRange().getValues();
+    const headers = header.map((cell) => toText(cell));
+    const columns: Record<string, number> = {};
+    headers.forEach((h, i) => (columns[h.toLowerCase()] = i));
+    for (const column of required) {
+      if (columns[column] === undefined) {
+        throw new Error(`Missing column ${column} in sheet ${name}`);
+      }
+    }
+    return {
+      headers,
+      columns,
+      rows: rows.map((row, i) => [row, i + 1] as const).filter(([row]) => row.some((cell) => toText(cell) !== '')),
+    };
+  }
+
+  /**
+   * Read a scheduling problem from a spreadsheet (see the module
+   * documentation for the layout).
+   *
+   * @param book - The spreadsheet.
+   * @param minDuration - The minimum duration of an assignable shift.
+   * @param layout - The names of the sheets.
+   * @returns The scheduling problem.
+   * @throws If a sheet, a column or a value is missing or not valid.
+   */
+  export function readProblem(book: Workbook, minDuration: number, layout: Layout = {}): scheduling.SchedulingProblem {
+    const toNumber = (cell: Cell, sheet: string, row: number, column: number) => {
+      const n = typeof cell === 'number' ? cell : Number(toText(cell));
+      if (toText(cell) === '' || isNaN(n)) {
+        throw new Error(`${address(sheet, row, column)}: invalid number ${JSON.stringify(toText(cell))}`);
+      }
+      return n;
+    };
+    const problem: scheduling.SchedulingProblem = { types: [], riders: [], timeSlices: [], demand: [], minDuration };
+    const addType = (type: string) => problem.types.indexOf(type) < 0 && problem.types.push(type);
+
+    const ridersSheet = layout.riders ?? 'Riders';
+    const riders = readSheet(book, ridersSheet, ['id', 'type', 'guaranteed']);
+    for (const [row, i] of riders.rows) {
+      const { id, name, type, guaranteed } = riders.columns;
+      addType(toText(row[type]));
+      problem.riders.push({
+        id: toText(row[id]),
+        name: name === undefined ? undefined : toText(row[name]) || undefined,
+        type: toText(row[type]),
+        guaranteed: toNumber(row[guaranteed], ridersSheet, i, guaranteed),
+        available: {},
+      });
+    }
+
+    const demandSheet = layout.demand ?? 'Demand';
+    const demand = readSheet(book, demandSheet, ['timeslice', 'duration', 'expected']);
+    const typeColumns = demand.headers
+      .map((h, column) => [/^expected\s+(.+)$/i.exec(h), column] as const)
+      .filter(([match]) => match)
+      .map(([match, column]) => [match![1], column] as const);
+    typeColumns.forEach(([type]) => addType(type));
+    for (const [row, i] of demand.rows) {
+      const { timeslice, start, duration, expected } = demand.columns;
+      const id = toText(row[timeslice]);
+      problem.timeSlices.push({
+        id,
+        start: start === undefined ? undefined : toText(row[start]) || undefined,
+        duration: toNumber(row[duration], demandSheet, i, duration),
+      });
+      problem.demand.push({ timeSlice: id, riders: toNumber(row[expected], demandSheet, i, expected) });
+      for (const [type, column] of typeColumns) {
+        if (toText(row[column]) !== '') {
+          problem.demand.push({ timeSlice: id, type, riders: toNumber(row[column], demandSheet, i, column) });
+        }
+      }
+    }
+
+    const availabilitySheet = layout.availability ?? 'Availability';
+    const availability = readSheet(book, availabilitySheet, ['rider']);
+    for (const [row, i] of availability.rows) {
+      const id = toText(row[availability.columns.rider]);
+      const rider = problem.riders.find((r) => r.id === id);
+      if (!rider) {
+        throw new Error(`${address(availabilitySheet, i, availability.columns.rider)}: unknown rider ${id}`);
+      }
+      const available = (rider.available = rider.available ?? {});
+      availability.headers.forEach((timeSlice, column) => {
+        const a = toText(row[column] ?? '').toLowerCase();
+        if (column === availability.columns.rider || a === '' || a === '0' || a === 'false') {
+          return;
+        } else if (a === '1' || a === 'true') {
+          available[timeSlice] = true;
+        } else if (a === 'preferred' || a === 'possible' || a === 'unavailable') {
+          available[timeSlice] = a;
+        } else {
+          throw new Error(`${address(availabilitySheet, i, column)}: invalid availability ${JSON.stringify(a)}`);
+        }
+      });
+    }
+
+    return problem;
+  }
+
+  /**
+   * Write a schedule into a new sheet: the status of the solver, the shifts of
+   * the riders and the coverage (and shortage) of the timeslices.
+   *
+   * @param book - The spreadsheet.
+   * @param problem - The scheduling problem.
+   * @param schedule - The solution of the problem.
+   * @param layout - The names of the sheets.
+   * @returns The new sheet.
+   */
+  export function writeSchedule(
+    book: Workbook,
+    problem: scheduling.SchedulingProblem,
+    schedule: scheduling.Schedule,
+    layout: Layout = {},
+  ): Sheet {
+    const base = layout.schedule ?? 'Schedule';
+    let name = base;
+    for (let i = 2; book.getSheetByName(name); i += 1) {
+      name = `${base} (${i})`;
+    }
+    const sheet = book.insertSheet(name);
+
+    const rows: Cell[][] = [['status', schedule.status]];
+    if (schedule.objective !== undefined) {
+      rows.push(['objective', schedule.objective]);
+    }
+    for (const { title, headers, rows: tableRows } of report.makeTables(problem, schedule)) {
+      rows.push([], [title], headers, ...tableRows);
+    }
+    const width = Math.max(...rows.map((row) => row.length));
+    const values = rows.map((row) => [...row, ...Array<Cell>(width - row.length).fill('')]);
+    sheet.getRange(1, 1, values.length, width).setValues(values);
+    return sheet;
+  }
+
+  /**
+   * Read a scheduling problem from a spreadsheet, solve it and write the
+   * schedule back into a new sheet.
+   *
+   * @param book - The spreadsheet (e.g. `SpreadsheetApp.getActiveSpreadsheet()`).
+   * @param minDuration - The minimum duration of an assignable shift.
+   * @param options - The optional settings of the problem.
+   * @param layout - The names of the sheets.
+   * @returns The schedule.
+   */
+  export function run(
+    book: Workbook,
+    minDuration: number,
+    options: scheduling.Options = {},
+    layout: Layout = {},
+  ): scheduling.Schedule {
+    const problem = readProblem(book, minDuration, layout);
+    const schedule = scheduling.makeLP(problem, options).solve();
+    writeSchedule(book, problem, schedule, layout);
+    return schedule;
+  }
+
+  /**
+   * A sheet held in memory.
+   */
+  export class MemorySheet implements Sheet {
+    /**
+     * Create a sheet.
+     *
+     * @param name - The name of the sheet.
+     * @param values - The rows of the sheet.
+     */
+    constructor(private readonly name: string, public values: Cell[][] = []) {}
+
+    getName(): string {
+      return this.name;
+    }
+
+    getDataRange(): Range {
+      const width = Math.max(0, ...this.values.map((row) => row.length));
+      return this.getRange(1, 1, Math.max(1, this.values.length), Math.max(1, width));
+    }
+
+    getRange(row: number, column: number, numRows: number, numColumns: number): Range {
+      const sheet = this;
+      return {
+        getValues: () =>
+          Array.from({ length: numRows }, (_, i) =>
+            Array.from({ length: numColumns }, (__, j) => (sheet.values[row - 1 + i] || [])[column - 1 + j] ?? ''),
+          ),
+        setValues(values: Cell[][]) {
+          if (values.length !== numRows || values.some((r) => r.length !== numColumns)) {
+            throw new Error('The values do not match the size of the range');
+          }
+          values.forEach((r, i) => {
+            const target = (sheet.values[row - 1 + i] = sheet.values[row - 1 + i] || []);
+            r.forEach((cell, j) => (target[column - 1 + j] = cell));
+          });
+          return this;
+        },
+      };
+    }
+  }
+
+  /**
+   * A spreadsheet held in memory, e.g. to use the adapter in Node.
+   */
+  export class MemoryWorkbook implements Workbook {
+    private readonly sheets: MemorySheet[] = [];
+
+    /**
+     * Create a spreadsheet.
+     *
+     * @param sheets - The rows of each sheet, by name.
+     */
+    constructor(sheets: Record<string, Cell[][]> = {}) {
+      for (const name of Object.keys(sheets)) {
+        this.sheets.push(new MemorySheet(name, sheets[name]));
+      }
+    }
+
+    getSheetByName(name: string): MemorySheet | null {
+      return this.sheets.find((sheet) => sheet.getName() === name) ?? null;
+    }
+
+    insertSheet(name: string): MemorySheet {
+      if (this.getSheetByName(name)) {
+        throw new Error(`A sheet named ${name} already exists`);
+      }
+      const sheet = new MemorySheet(name);
+      this.sheets.push(sheet);
+      return sheet;
+    }
+  }
+}
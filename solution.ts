@@ -0,0 +1,240 @@
+/// <reference path="lp.ts" />
+
+/**
+ * This module reads back the solutions computed by external solvers, so that
+ * a linear program exported with {@link lp.exportAsLP} can be solved offline
+ * and its result can still be consumed as if it came from {@link lp.minimize}.
+ *
+ * The supported formats are the text outputs of:
+ *
+ *  - `lp_solve` (e.g. `lp_solve example.lp > example.sol`), which lists the
+ *    variables after an `Actual values of the variables:` header;
+ *
+ *  - CBC (e.g. `cbc example.lp solve solution example.sol`), whose first line
+ *    reports the status and whose other lines are `index name value reduced`;
+ *
+ *  - GLPK (e.g. `glpsol --lp example.lp -o example.sol`), which prints a table
+ *    of the columns after a `Column name` header.
+ */
+namespace lp {
+  /**
+   * The output formats of the supported external solvers.
+   */
+  export type SolutionFormat = 'lp_solve' | 'cbc' | 'glpk';
+
+  /**
+   * Guess which solver produced a solution file.
+   *
+   * @param text - The content of the solution file.
+   * @returns The format of the solution.
+   * @throws If the format is not recognized.
+   */
+  export function detectSolutionFormat(text: string): SolutionFormat {
+    if (/^(Actual values of the variables|This problem is (infeasible|unbounded))/m.test(text)) {
+      return 'lp_solve';
+    } else if (/^Status:/m.test(text) && /Column name/.test(text)) {
+      return 'glpk';
+    } else if (/^\s*(\S.*)?objective value/.test(text) || /^\s*(Infeasible|Integer infeasible|Unbounded)/.test(text)) {
+      return 'cbc';
+    }
+    throw new Error('Unrecognized solution format');
+  }
+
+  /**
+   * The status and the `[name, value]` pairs of a solution file.
+   */
+  interface ParsedSolution {
+    status: Status;
+    values?: Array<[string, number]>;
+  }
+
+  /**
+   * Extract the `[name, value]` pairs from an `lp_solve` solution.
+   *
+   * @param lines - The lines of the solution file.
+   * @returns The status and the values of the variables (unless the program is
+   * infeasible or unbounded).
+   */
+  function parseLpSolve(lines: string[]): ParsedSolution {
+    if (lines.some((line) => /^This problem is infeasible/.test(line))) {
+      return { status: 'infeasible' };
+    } else if (lines.some((line) => /^This problem is unbounded/.test(line))) {
+      return { status: 'error' };
+    }
+
+    const start = lines.findIndex((line) => /^Actual values of the variables/.test(line));
+    if (start < 0) {
+      throw new Error('Missing "Actual values of the variables" section');
+    }
+
+    const values: Array<[string, number]> = [];
+    for (const line of lines.slice(start + 1)) {
+      if (/:\s*$/.test(line)) {
+        break; // the next section (constraints, dual values...) starts here
+      }
+      const tokens = line.trim().split(/\s+/);
+      if (tokens.length === 2) {
+        values.push([tokens[0], parseFloat(tokens[1])]);
+      }
+    }
+    return { status: lines.some((line) => /SUBOPTIMAL/.test(line)) ? 'feasible' : 'optimal', values };
+  }
+
+  /**
+   * Extract the `[name, value]` pairs from a CBC solution.
+   *
+   * @remarks CBC only lists the variables whose value is not 0.
+   *
+   * @param lines - The lines of the solution file.
+   * @returns The status and the values of the variables (unless the program is
+   * infeasible or unbounded).
+   */
+  function parseCbc(lines: string[]): ParsedSolution {
+    const status = lines.find((line) => line.trim()) || '';
+    if (/^\s*(Infeasible|Integer infeasible)/.test(status)) {
+      return { status: 'infeasible' };
+    } else if (/^\s*Unbounded/.test(status)) {
+      return { status: 'error' };
+    }
+
+    const values: Array<[string, number]> = [];
+    for (const line of lines.slice(lines.indexOf(status) + 1)) {
+      // values that violate the constraints are marked by a leading `**`
+      const match = /^\s*(?:\*\*)?\s*\d+\s+(\S+)\s+(\S+)/.exec(line);
+      if (match) {
+        values.push([match[1], parseFloat(match[2])]);
+      }
+    }
+    return { status: /^\s*Optimal/.test(status) ? 'optimal' : 'feasible', values };
+  }
+
+  /**
+   * Extract the `[name, value]` pairs from a GLPK (printable) solution.
+   *
+   * @param lines - The lines of the solution file.
+   * @returns The status and the values of the variables (unless the program is
+   * infeasible or unbounded).
+   */
+  function parseGlpk(lines: string[]): ParsedSolution {
+    const status = lines.find((line) => /^Status:/.test(line)) || '';
+    if (/EMPTY|INFEASIBLE/.test(status)) {
+      return { status: 'infeasible' };
+    } else if (/UNBOUNDED|UNDEFINED/.test(status)) {
+      return { status: 'error' };
+    }
+
+    const start = lines.findIndex((line) => /Column name/.test(line));
+    if (start < 0) {
+      throw new Error('Missing "Column name" section');
+    }
+
+    const values: Array<[string, number]> = [];
+    let pending: string | undefined;
+    for (const line of lines.slice(start + 2)) {
+      if (!line.trim()) {
+        break;
+      }
+
+      // long names are printed on their own line, followed by the values
+      const tokens = line.trim().split(/\s+/);
+      let rest: string[];
+      let name: string;
+      if (pending !== undefined) {
+        name = pending;
+        rest = tokens;
+        pending = undefined;
+      } else if (tokens.length === 2 && /^\d+$/.test(tokens[0])) {
+        pending = tokens[1];
+        continue;
+      } else {
+        name = tokens[1];
+        rest = tokens.slice(2);
+      }
+
+      // skip the integer marker (`*`) or the basis status (`B`, `NL`...)
+      if (rest.length && isNaN(parseFloat(rest[0]))) {
+        rest = rest.slice(1);
+      }
+      values.push([name, parseFloat(rest[0])]);
+    }
+    return { status: /NON-OPTIMAL|FEASIBLE/.test(status) ? 'feasible' : 'optimal', values };
+  }
+
+  /**
+   * Import the solution of a linear program computed by an external solver.
+   *
+   * @remarks
+   *
+   * The variables are matched by name against those of the linear program;
+   * the ones that are not mentioned in the solution (e.g. because the solver
+   * omits zeros) are assumed to be 0.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   * @param text - The content of the solution file.
+   * @param objective - The objective expression of the linear program.
+   * @param constraints - The constraints of the linear program.
+   * @param format - The format of the solution (detected if not specified).
+   * @returns The solution, or `undefined` if the solver found no solution.
+   * @throws If the solution mentions variables that are not in the program.
+   */
+  export function importSolution<T>(
+    text: string,
+    objective: LinExpr<T>,
+    constraints: Constraint<T>[],
+    format: SolutionFormat = detectSolutionFormat(text),
+  ): LinExpr<T> | undefined {
+    return importResult(text, objective, constraints, format).solution;
+  }
+
+  /**
+   * Import the solution of a linear program computed by an external solver,
+   * along with the status reported by the solver.
+   *
+   * @remarks
+   *
+   * This is the same as {@link lp.importSolution}, but it also tells whether
+   * the solution is optimal and why no solution was found.
+   *
+   * @typeParam T - The type of the auxiliary payload of the variables.
+   * @param text - The content of the solution file.
+   * @param objective - The objective expression of the linear program.
+   * @param constraints - The constraints of the linear program.
+   * @param format - The format of the solution (detected if not specified).
+   * @returns The outcome of the solver, along with the solution (if any).
+   * @throws If the solution mentions variables that are not in the program.
+   */
+  export function importResult<T>(
+    text: string,
+    objective: LinExpr<T>,
+    constraints: Constraint<T>[],
+    format: SolutionFormat = detectSolutionFormat(text),
+  ): Result<T> {
+    const lines = text.split(/\r?\n/);
+    const { status, values } =
+      format === 'lp_solve' ? parseLpSolve(lines) : format === 'cbc' ? parseCbc(lines) : parseGlpk(lines);
+    if (!values) {
+      return { status };
+    }
+
+    const vars: Record<string, number> = {};
+    const newObjective = saturate(objective, constraints);
+    for (const [v] of newObjective.getVarCoefficients()) {
+      vars[v.name] = 0;
+    }
+    for (const [name, value] of values) {
+      if (vars[name] === undefined) {
+        throw new Error(`Unknown variable named ${name}`);
+      }
+      if (isNaN(value)) {
+        throw new Error(`Invalid value for variable named ${name}`);
+      }
+      vars[name] = value;
+    }
+
+    const solution = new LinExpr<T>();
+    for (const [v] of newObjective.getVarCoefficients()) {
+      solution.setCoefficient(v, vars[v.name]);
+    }
+    return { status, solution };
+  }
+}
@@ -0,0 +1,345 @@
+/// <reference path="problem.ts" />
+/// <reference path="scheduling.ts" />
+
+/**
+ * This module checks a schedule against the rules of a scheduling problem,
+ * independently of the linear program, so that the assignments that come from
+ * an external solver, an imported solution or a hand-edited sheet can be
+ * accepted or rejected safely.
+ *
+ * The schedule is either the list of the shifts of each rider (as in
+ * {@link scheduling.Schedule.shifts}), also along with the counted time (as in
+ * {@link scheduling.Schedule}), or the matrix `assignment[rider][t]` (as in
+ * {@link scheduling.Schedule.assignment}), whose runs of assigned timeslices
+ * within a day are the shifts. The violations are:
+ *
+ *  - `unavailable`, a shift includes a timeslice in which the rider is not
+ *    available;
+ *
+ *  - `minDuration`, a shift is shorter than `minDuration`;
+ *
+ *  - `overlap`, two shifts of the same rider overlap;
+ *
+ *  - `crossesDay`, a shift continues into the next day, although the shifts
+ *    of the day are not overnight, or there is a gap between the days (or it
+ *    spans more than two days);
+ *
+ *  - `coverage`, fewer riders than `expected[t]` work in a timeslice, or
+ *    fewer riders of a type than `expectedOfType[type][t]` (the type of a
+ *    rider is the one of the shift, if any, otherwise the one of the rider);
+ *
+ *  - `guaranteed`, the counted (i.e. paid) time of a rider, if known, is less
+ *    than his/her guaranteed time or than the time worked (in each week, if
+ *    the horizon is split into days); without the counted time, the time that
+ *    is guaranteed but not worked is paid anyway, hence it is not a
+ *    violation.
+ *
+ * The shifts that do not refer to existing timeslices (`invalidShift`) are
+ * reported and otherwise ignored.
+ */
+namespace scheduling {
+  /**
+   * The kind of a violation of the rules of a scheduling problem.
+   */
+  export type ViolationKind =
+    | 'invalidShift'
+    | 'unavailable'
+    | 'minDuration'
+    | 'overlap'
+    | 'crossesDay'
+    | 'coverage'
+    | 'guaranteed';
+
+  /**
+   * A schedule to be checked: the shifts of each rider, optionally with their
+   * counted time, or whether each rider is assigned to each timeslice.
+   */
+  export type ScheduleToValidate =
+    | Shift[][]
+    | boolean[][]
+    | (Required<Pick<Schedule, 'shifts'>> & Pick<Schedule, 'countedTime'>);
+
+  /**
+   * A violation of the rules of a scheduling problem by a schedule.
+   */
+  export interface Violation {
+    /**
+     * The kind of violation.
+     */
+    kind: ViolationKind;
+
+    /**
+     * The index of the rider, if the violation concerns a rider.
+     */
+    rider?: number;
+
+    /**
+     * The index of the timeslice, if the violation concerns a timeslice.
+     */
+    timeSlice?: number;
+
+    /**
+     * The shifts that violate the rules, if any.
+     */
+    shifts?: Shift[];
+
+    /**
+     * The type of vehicle, for the coverage of a type.
+     */
+    type?: string;
+
+    /**
+     * The day whose end is crossed by a shift.
+     */
+    day?: number;
+
+    /**
+     * The required value, i.e. the minimum duration, the expected number of
+     * riders or the time to be paid.
+     */
+    required?: number;
+
+    /**
+     * The actual value, i.e. the duration of the shift, the number of riders
+     * or the counted time.
+     */
+    actual?: number;
+
+    /**
+     * The description of the violation.
+     */
+    message: string;
+  }
+
+  /**
+   * Check a schedule against the rules of a scheduling problem.
+   *
+   * @param schedule - The shifts of each rider (optionally with the counted
+   * time), or whether each rider is assigned to each timeslice.
+   * @param problem - The scheduling problem.
+   * @param options - The optional settings of the problem (only `days` is
+   * used).
+   * @returns All of the violations, which is empty if the schedule is valid.
+   * @throws If the problem is not valid, or the schedule has more riders than
+   * the problem.
+   */
+  export function validateSchedule(
+    schedule: ScheduleToValidate,
+    problem: SchedulingProblem,
+    options?: Options,
+  ): Violation[];
+
+  /**
+   * Check a schedule against the rules of a scheduling problem.
+   *
+   * @param schedule - The shifts of each rider (optionally with the counted
+   * time), or whether each rider is assigned to each timeslice.
+   * @param duration - The array of durations of the input timeslices.
+   * @param expected - The array of expected number of riders in each timeslice.
+   * @param expectedOfType - The array of expected number of riders in each
+   * timeslice, for each type.
+   * @param riderType - The type of each rider.
+   * @param available - For each timeslice, whether (or how much) the rider is
+   * available.
+   * @param guaranteed - For each rider, the guaranteed amount of time.
+   * @param minDuration - The minimum duration of each shift.
+   * @param options - The optional settings of the problem (only `days` is
+   * used).
+   * @returns All of the violations, which is empty if the schedule is valid.
+   * @throws If the schedule has more riders than the problem.
+   */
+  export function validateSchedule(
+    schedule: ScheduleToValidate,
+    duration: number[],
+    expected: number[],
+    expectedOfType: Record<string, number[]>,
+    riderType: string[],
+    available: Array<Array<boolean | Availability>>,
+    guaranteed: number[],
+    minDuration: number,
+    options?: Options,
+  ): Violation[];
+
+  export function validateSchedule(
+    schedule: ScheduleToValidate,
+    ...args: [SchedulingProblem, Options?] | ArrayArgs
+  ): Violation[] {
+    const problem = Array.isArray(args[0]) ? undefined : (args[0] as SchedulingProblem);
+    const [duration, expected, expectedOfType, riderType, available, guaranteed, minDuration, options = {}] = problem
+      ? fromProblem(problem, args[1] as Options | undefined)
+      : (args as ArrayArgs);
+    const numTimeSlices = duration.length;
+    const { shifts: riderShifts, countedTime } = Array.isArray(schedule)
+      ? { shifts: schedule, countedTime: undefined }
+      : schedule;
+    if (riderShifts.length > guaranteed.length) {
+      throw new Error(`The schedule has ${riderShifts.length} riders, but the problem has ${guaranteed.length}`);
+    }
+
+    // the messages mention the IDs of the riders and timeslices, if known
+    const riderName = (rider: number) => (problem ? problem.riders[rider].id : `${rider}`);
+    const sliceName = (t: number) => (problem ? problem.timeSlices[t].id : `${t}`);
+    const shiftName = ({ start, end }: Shift) =>
+      start === end ? sliceName(start) : `${sliceName(start)}..${sliceName(end)}`;
+
+    // without days, the whole horizon is a single day (and week)
+    const days = options.days ?? [{ numTimeSlices }];
+    const dayOf: number[] = [];
+    const gapBefore: boolean[] = [];
+    days.forEach((day, i) => {
+      for (let t = 0; t < day.numTimeSlices; t += 1) {
+        gapBefore.push(t === 0 && !!days[i - 1]?.gap);
+        dayOf.push(i);
+      }
+    });
+    const weekOf = (t: number) => Math.floor((dayOf[t] ?? 0) / 7);
+    const canContinue = (start: number, t: number) =>
+      dayOf[t] === dayOf[start] ||
+      (dayOf[t] === dayOf[start] + 1 && days[dayOf[start]].overnightShifts && !gapBefore[t]);
+
+    const shiftsOf = (riderShifts as Array<Array<Shift | boolean>>).map((s) => {
+      if (!s.some((x) => typeof x === 'boolean')) {
+        return s as Shift[];
+      }
+      const r: Shift[] = [];
+      s.forEach((a, t) => {
+        const last = r[r.length - 1];
+        if (a && last && last.end === t - 1 && canContinue(last.start, t)) {
+          last.end = t;
+        } else if (a) {
+          r.push({ start: t, end: t, duration: 0 });
+        }
+      });
+      return r;
+    });
+
+    const violations: Violation[] = [];
+    const working = expected.map(() => [] as Array<{ rider: number; type: string }>);
+    guaranteed.forEach((_, rider) => {
+      const shifts = shiftsOf[rider] ?? [];
+      const worked: number[] = [];
+      for (let week = 0; week < Math.ceil(days.length / 7); week += 1) {
+        worked.push(0);
+      }
+      const valid = shifts.filter((shift) => {
+        const { start, end } = shift;
+        const ok = start % 1 === 0 && end % 1 === 0 && 0 <= start && start <= end && end < numTimeSlices;
+        if (!ok) {
+          violations.push({
+            kind: 'invalidShift',
+            rider,
+            shifts: [shift],
+            message: `The shift ${start}..${end} of rider ${riderName(rider)} is not within the timeslices`,
+          });
+        }
+        return ok;
+      });
+
+      for (const shift of valid) {
+        let d = 0;
+        for (let t = shift.start; t <= shift.end; t += 1) {
+          d += duration[t];
+          worked[weekOf(shift.start)] += duration[t];
+          const a = available[t][rider];
+          if (a === false || a === 'unavailable') {
+            violations.push({
+              kind: 'unavailable',
+              rider,
+              timeSlice: t,
+              shifts: [shift],
+              message: `Rider ${riderName(rider)} is not available in timeslice ${sliceName(t)}`,
+            });
+          }
+          if (!working[t].some((w) => w.rider === rider)) {
+            working[t].push({ rider, type: shift.type ?? riderType[rider] });
+          }
+        }
+        if (d < minDuration) {
+          violations.push({
+            kind: 'minDuration',
+            rider,
+            shifts: [shift],
+            required: minDuration,
+            actual: d,
+            message: `The shift ${shiftName(shift)} of rider ${riderName(
+              rider,
+            )} lasts ${d}, less than the minimum duration ${minDuration}`,
+          });
+        }
+      }
+
+      for (const shift of valid) {
+        let t = shift.start + 1;
+        while (t <= shift.end && canContinue(shift.start, t)) {
+          t += 1;
+        }
+        if (t <= shift.end) {
+          violations.push({
+            kind: 'crossesDay',
+            rider,
+            shifts: [shift],
+            day: dayOf[t - 1],
+            message: `The shift ${shiftName(shift)} of rider ${riderName(rider)} crosses the end of day ${dayOf[t - 1] +
+              1}`,
+          });
+        }
+      }
+      const sorted = [...valid].sort((x, y) => x.start - y.start);
+      sorted.forEach((shift, i) => {
+        for (const other of sorted.slice(i + 1).filter((o) => o.start <= shift.end)) {
+          violations.push({
+            kind: 'overlap',
+            rider,
+            shifts: [shift, other],
+            message: `The shifts ${shiftName(shift)} and ${shiftName(other)} of rider ${riderName(rider)} overlap`,
+          });
+        }
+      });
+
+      // the time of each week is counted as in the linear program, i.e. at
+      // least the guaranteed time and the time worked (up to rounding errors)
+      const required = worked.reduce((sum, w) => sum + Math.max(w, guaranteed[rider]), 0);
+      const counted = countedTime?.[rider];
+      if (counted !== undefined && counted < required - 1e-6 * Math.max(1, required)) {
+        violations.push({
+          kind: 'guaranteed',
+          rider,
+          required,
+          actual: counted,
+          message: `Rider ${riderName(
+            rider,
+          )} is paid for ${counted}, less than the guaranteed and worked time ${required}`,
+        });
+      }
+    });
+
+    expected.forEach((count, t) => {
+      if (working[t].length < count) {
+        violations.push({
+          kind: 'coverage',
+          timeSlice: t,
+          required: count,
+          actual: working[t].length,
+          message: `${working[t].length} riders work in timeslice ${sliceName(t)}, but ${count} are expected`,
+        });
+      }
+      for (const type of Object.keys(expectedOfType)) {
+        const n = working[t].filter((w) => w.type === type).length;
+        if (n < expectedOfType[type][t]) {
+          violations.push({
+            kind: 'coverage',
+            timeSlice: t,
+            type,
+            required: expectedOfType[type][t],
+            actual: n,
+            message: `${n} ${type} riders work in timeslice ${sliceName(t)}, but ${
+              expectedOfType[type][t]
+            } are expected`,
+          });
+        }
+      }
+    });
+
+    return violations;
+  }
+}